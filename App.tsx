@@ -1,7 +1,7 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { StoredFile, FileType, StorageStats, VaultBackup, VaultProfile } from './types.ts';
+import { StoredFile, FileType, MarkdownBlock, MarkdownInline, CodeToken, Folder, FolderKind, CollectionRules, SmartCollection, DuplicateCluster, StorageStats, VaultHealthReport, VaultKeys, VaultProfile, VersionPolicy, LockPolicy } from './types.ts';
 import { 
   saveFile, 
   deleteFile, 
@@ -9,15 +9,95 @@ import {
   checkPersistence,
   getVaultProfiles,
   saveVaultProfile,
+  getFilePage,
   getFilesByVault,
-  exportFullBackup,
-  importFullBackup,
-  deleteVaultProfile,
-  updateFile,
-  saveChunk,
-  getChunk
+  patchFile,
+  getCollections,
+  deleteCollection,
+  deleteVaultProfile
 } from './services/storageService.ts';
-import { encryptFile, decryptFile, encryptChunk, decryptChunk } from './services/cryptoService.ts';
+import { 
+  createMasterKey, 
+  unlockVault, 
+  createVerification, 
+  verifyPin,
+  rewrapMasterKey,
+  hashContent,
+  IntegrityError,
+  CHUNK_SIZE
+} from './services/cryptoService.ts';
+import { encryptFile, resetCryptoPool } from './services/workerCryptoService.ts';
+import { 
+  subscribeUploads, 
+  getUploads, 
+  startUploadQueue, 
+  stopUploadQueue, 
+  enqueueUploads, 
+  pauseUpload, 
+  resumeUpload, 
+  retryUpload, 
+  cancelUpload, 
+  keepDuplicate,
+  linkDuplicate,
+  clearFinishedUploads 
+} from './services/uploadQueue.ts';
+import { startMigration, resolveLegacyKeys, runMigration, needsMigration } from './services/migrationService.ts';
+import { createSession, restoreSession, touchSession, endSession, SESSION_TTL } from './services/sessionService.ts';
+import { exportFullBackup, importFullBackup } from './services/backupService.ts';
+import { saveFileToDisk, readFileBlob, openStreamUrl, releaseStreamUrl, releaseAllStreams, createObjectUrl, revokeObjectUrl, revokeAllObjectUrls } from './services/streamService.ts';
+import { DEFAULT_LOCK_POLICY, startAutoLock } from './services/lockService.ts';
+import { AttemptState, LockedOutError, WIPE_OPTIONS, beginAttempt, clearAttempts, restoreAttempts, getAttemptState, isLockedOut, lockoutFor, attemptsBeforeLockout, attemptsBeforeWipe } from './services/attemptService.ts';
+import { scanVaultHealth, reclaimOrphans, removeDamagedFiles } from './services/healthService.ts';
+import { generateThumbnail, loadThumbnailUrl, rebuildThumbnails } from './services/thumbnailService.ts';
+import { isNote, createNote, updateNote, readNote } from './services/noteService.ts';
+import { parseMarkdown } from './services/markdownService.ts';
+import { viewerFor, languageOf, highlightCode } from './services/viewerService.ts';
+import { readPreviewBlob, prefetchFiles, clearPrefetched } from './services/prefetchService.ts';
+import { loadSearchIndex, resetSearchIndex, searchContent, subscribeSearchIndex, getSearchIndexVersion, buildSearchIndex } from './services/searchService.ts';
+import {
+  loadFolderTree,
+  getRootFolder,
+  getChildFolders,
+  folderPath,
+  isDescendant,
+  createFolder,
+  updateFolder,
+  moveFolder,
+  deleteFolder,
+  moveFiles,
+  copyFiles
+} from './services/folderService.ts';
+import {
+  normalizeTag,
+  collectTags,
+  matchesRules,
+  describeRules,
+  createCollection,
+  updateCollection,
+  applyTags,
+  setFavorite
+} from './services/collectionService.ts';
+import {
+  TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+  isTrashed,
+  trashExpiresAt,
+  moveToTrash,
+  restoreFromTrash,
+  purgeFiles,
+  purgeExpiredTrash
+} from './services/trashService.ts';
+import {
+  DEFAULT_VERSION_POLICY,
+  isRevision,
+  getRevisions,
+  findPreviousVersion,
+  addVersion,
+  restoreVersion,
+  pruneVersions,
+  withHistory
+} from './services/versionService.ts';
+import { findDuplicates } from './services/duplicateService.ts';
 import { 
   FolderIcon, 
   PhotoIcon, 
@@ -53,9 +133,35 @@ import {
   Bars3Icon,
   ListBulletIcon,
   Squares2X2Icon,
-  ClipboardIcon
+  ClipboardIcon,
+  KeyIcon,
+  PauseIcon,
+  FolderPlusIcon,
+  FolderOpenIcon,
+  FolderArrowDownIcon,
+  RectangleStackIcon,
+  ChevronRightIcon,
+  ChevronDownIcon,
+  StarIcon,
+  TagIcon,
+  SparklesIcon,
+  ArrowUturnLeftIcon,
+  ClockIcon,
+  DocumentDuplicateIcon,
+  DocumentMagnifyingGlassIcon,
+  DocumentTextIcon,
+  DocumentPlusIcon,
+  EyeIcon,
+  MusicalNoteIcon,
+  ChevronLeftIcon,
+  MagnifyingGlassPlusIcon,
+  MagnifyingGlassMinusIcon
 } from '@heroicons/react/24/outline';
 
+// Built-in views that behave like smart collections but aren't saved
+const FAVORITES_VIEW: SmartCollection = { id: 'favorites', vaultId: '', name: 'Favorites', rules: { favoritesOnly: true }, createdAt: 0 };
+const tagView = (tag: string): SmartCollection => ({ id: `tag:${tag}`, vaultId: '', name: `#${tag}`, rules: { tags: [tag] }, createdAt: 0 });
+
 const AVATAR_COLORS = ['bg-indigo-500', 'bg-emerald-500', 'bg-rose-500', 'bg-amber-500', 'bg-purple-500', 'bg-sky-500'];
 
 const InfinityLogo = ({ className = "w-12 h-12", color = "currentColor" }: { className?: string, color?: string }) => (
@@ -70,25 +176,44 @@ export default function App() {
   const [isUnlocked, setIsUnlocked] = useState(false);
   const [files, setFiles] = useState<StoredFile[]>([]);
   const [filter, setFilter] = useState<FileType | 'all'>('all');
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null); // null shows the whole vault
+  const [collections, setCollections] = useState<SmartCollection[]>([]);
+  const [activeCollection, setActiveCollection] = useState<SmartCollection | null>(null);
+  const [collectionDraft, setCollectionDraft] = useState<{ collection?: SmartCollection } | null>(null);
+  const [tagTargets, setTagTargets] = useState<StoredFile[] | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showHelp, setShowHelp] = useState(false);
   const [showSecurityNotice, setShowSecurityNotice] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState('');
-  const [vaultPin, setVaultPin] = useState('');
+  const [backgroundTask, setBackgroundTask] = useState('');
+  const [thumbnailVersion, setThumbnailVersion] = useState(0);
+  const [loadStatus, setLoadStatus] = useState('');
+  const [hasMoreFiles, setHasMoreFiles] = useState(false);
+  const [vaultKeys, setVaultKeys] = useState<VaultKeys | null>(null);
   const [loginName, setLoginName] = useState('');
   const [pinEntry, setPinEntry] = useState('');
   const [error, setError] = useState('');
   const [isPersistent, setIsPersistent] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  const [loginAttempts, setLoginAttempts] = useState<(AttemptState & { wipeAfter?: number }) | null>(null);
+  const [clock, setClock] = useState(Date.now());
   const [quota, setQuota] = useState<{used: number, total: number}>({used: 0, total: 0});
   const [showCamera, setShowCamera] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
   const [previewFile, setPreviewFile] = useState<StoredFile | null>(null);
+  const [noteEditor, setNoteEditor] = useState<StoredFile | 'new' | null>(null);
   const [showMaintenance, setShowMaintenance] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showChangePin, setShowChangePin] = useState(false);
   const [showInstallModal, setShowInstallModal] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<string | null>(null);
   const [fileToRename, setFileToRename] = useState<StoredFile | null>(null);
+  const [folderDraft, setFolderDraft] = useState<{ folder?: Folder, parentId?: string } | null>(null);
+  const [folderToMove, setFolderToMove] = useState<Folder | null>(null);
+  const [showMoveFiles, setShowMoveFiles] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -96,14 +221,28 @@ export default function App() {
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
   const [isPickingFile, setIsPickingFile] = useState(false);
   const isPickingFileRef = useRef(false);
+  const filesRef = useRef<StoredFile[]>([]);
+  const activeProfileRef = useRef<VaultProfile | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const videoRef = useRef<HTMLVideoElement>(null);
-  const lockTimeoutRef = useRef<any>(null);
+  const unlockedAtRef = useRef(0);
+  const migrationAbortRef = useRef<AbortController | null>(null);
+  const loadGenerationRef = useRef(0);
+  const nextPageRef = useRef<{ vaultId: string, keys: VaultKeys, after: string } | null>(null);
+  const pageLoadRef = useRef<Promise<void> | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const uploads = useSyncExternalStore(subscribeUploads, getUploads);
+  const searchIndexVersion = useSyncExternalStore(subscribeSearchIndex, getSearchIndexVersion);
 
   useEffect(() => {
     isPickingFileRef.current = isPickingFile;
   }, [isPickingFile]);
 
+  useEffect(() => {
+    filesRef.current = files;
+    activeProfileRef.current = activeProfile;
+  }, [files, activeProfile]);
+
   const isIOS = useMemo(() => {
     return /iPad|iPhone|iPod/.test(navigator.userAgent) && !(window as any).MSStream;
   }, []);
@@ -117,61 +256,131 @@ export default function App() {
       setDeferredPrompt(e);
     };
 
+    // Reset picking flag when we come back to the app
     const handleVisibilityChange = () => {
-      if (document.visibilityState === 'hidden' && isUnlocked) {
-        // Clear any existing lock timeout
-        if (lockTimeoutRef.current) clearTimeout(lockTimeoutRef.current);
-        
-        // Don't lock if we are picking a file or using the camera
-        // We use a ref to ensure we have the latest value in the event listener
-        if (isPickingFileRef.current || showCamera) return;
-
-        // Add a 3-second grace period for mobile visibility flickers
-        // This prevents logout if the OS briefly hides the tab while opening pickers
-        lockTimeoutRef.current = setTimeout(() => {
-          if (document.visibilityState === 'hidden' && !isPickingFileRef.current && !showCamera) {
-            handleLockVault();
-          }
-        }, 3000);
-      } else if (document.visibilityState === 'visible') {
-        // If the tab becomes visible again during the grace period, cancel the lock
-        if (lockTimeoutRef.current) {
-          clearTimeout(lockTimeoutRef.current);
-          lockTimeoutRef.current = null;
-        }
-        // Reset picking flag when we come back to the app
-        setIsPickingFile(false);
-      }
+      if (document.visibilityState === 'visible') setIsPickingFile(false);
     };
 
     window.addEventListener('beforeinstallprompt', handleBeforeInstall);
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => {
-      if (lockTimeoutRef.current) clearTimeout(lockTimeoutRef.current);
       window.removeEventListener('beforeinstallprompt', handleBeforeInstall);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [isUnlocked, showCamera]);
+  }, []);
 
+  // Locks on whatever the vault's policy enables. Picking a file or using the
+  // camera hides or blurs the page without leaving the vault.
   useEffect(() => {
-    const restoreSession = async () => {
-      const savedPin = sessionStorage.getItem('infinity_vault_pin');
-      const savedProfileId = sessionStorage.getItem('infinity_vault_profile_id');
-      
-      if (savedPin && savedProfileId && !isUnlocked) {
+    if (!isUnlocked) return;
+    return startAutoLock(activeProfile?.lockPolicy ?? DEFAULT_LOCK_POLICY, {
+      startedAt: unlockedAtRef.current,
+      onLock: handleLockVault,
+      isPaused: () => isPickingFileRef.current || showCamera
+    });
+  }, [isUnlocked, activeProfile?.lockPolicy, showCamera]);
+
+  useEffect(() => {
+    const resume = async () => {
+      try {
+        const session = await restoreSession();
+        if (!session || isUnlocked) return;
+
         const profiles = await getVaultProfiles();
-        const profile = profiles.find(p => p.id === savedProfileId);
+        const profile = profiles.find(p => p.id === session.profileId);
         if (profile) {
-          setVaultPin(savedPin);
+          unlockedAtRef.current = session.createdAt;
+          setVaultKeys(session.keys);
           setActiveProfile(profile);
           setIsUnlocked(true);
-          await loadFiles(profile.id);
+          await loadFiles(profile.id, session.keys);
+          resumeMigration(profile.id, session.keys);
+        } else {
+          await endSession();
         }
+      } catch (err) {
+        console.error("Session restore failed", err);
       }
     };
-    restoreSession();
+    resume();
   }, []);
 
+  // The standing of the vault being logged into, so a lockout stays on screen across reloads
+  const refreshLoginAttempts = async (name: string) => {
+    const profile = (await getVaultProfiles()).find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+    return profile ? { ...(await getAttemptState(profile.id)), wipeAfter: profile.wipeAfterFailures } : null;
+  };
+
+  useEffect(() => {
+    if (isUnlocked || authMode !== 'login') return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      refreshLoginAttempts(loginName)
+        .then(attempts => { if (!cancelled) setLoginAttempts(attempts); })
+        .catch(err => console.error("Attempt count unavailable", err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [loginName, authMode, isUnlocked]);
+
+  useEffect(() => {
+    const lockedUntil = loginAttempts?.lockedUntil ?? 0;
+    if (lockedUntil <= Date.now()) return;
+    setClock(Date.now());
+    const interval = setInterval(() => {
+      setClock(Date.now());
+      if (Date.now() >= lockedUntil) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [loginAttempts]);
+
+  // Keep the stored session alive while the vault is open; it lapses soon after the tab goes away
+  useEffect(() => {
+    if (!isUnlocked) return;
+    const interval = setInterval(() => touchSession(), SESSION_TTL / 4);
+    return () => clearInterval(interval);
+  }, [isUnlocked]);
+
+  // Uploads run per vault; interrupted ones are picked up again on unlock.
+  // Finished ones are placed one at a time so each sees the versions added before it.
+  useEffect(() => {
+    if (!isUnlocked || !activeProfile || !vaultKeys) return;
+    let placing = Promise.resolve();
+    startUploadQueue(activeProfile.id, vaultKeys, (file) => {
+      placing = placing.then(() => placeUpload(file, vaultKeys)).catch(err => console.error("Failed to place upload", err));
+    }, async (contentHash) => (await loadAllFiles()).find(f => f.contentHash === contentHash && !isTrashed(f) && !isRevision(f)),
+    (id, patch) => setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f)))
+      .catch(err => console.error("Failed to load pending uploads", err));
+    return () => stopUploadQueue();
+  }, [isUnlocked, activeProfile?.id, vaultKeys]);
+
+  // With versioning on, an upload named like a file in its folder becomes that file's new version
+  const placeUpload = async (file: StoredFile, keys: VaultKeys) => {
+    const policy = activeProfileRef.current?.versionPolicy ?? DEFAULT_VERSION_POLICY;
+    const previous = policy.enabled ? findPreviousVersion(await loadAllFiles(), file) : undefined;
+    let placed = [file];
+    let pruned: string[] = [];
+    if (previous) {
+      try {
+        const versioned = await addVersion(file, previous, keys);
+        if (versioned) {
+          placed = [versioned.file, versioned.previous];
+          const others = filesRef.current.filter(f => f.id !== file.id && f.id !== previous.id);
+          pruned = await pruneVersions([...others, ...placed], policy);
+        }
+      } catch (err) {
+        console.error("Versioning failed", err);
+      }
+    }
+    const replaced = new Set([...placed.map(f => f.id), ...pruned]);
+    const kept = placed.filter(f => !pruned.includes(f.id));
+    filesRef.current = [...filesRef.current.filter(f => !replaced.has(f.id)), ...kept];
+    setFiles(prev => [...prev.filter(f => !replaced.has(f.id)), ...kept]);
+    updateQuota();
+  };
+
   const handleInstallApp = async () => {
     if (deferredPrompt) {
       setIsProcessing(true);
@@ -187,21 +396,87 @@ export default function App() {
   };
 
   const handleLockVault = () => {
+    migrationAbortRef.current?.abort();
+    migrationAbortRef.current = null;
+    loadGenerationRef.current++;
+    nextPageRef.current = null;
+    pageLoadRef.current = null;
+    stopUploadQueue();
+    releaseAllStreams();
+    revokeAllObjectUrls();
+    clearPrefetched();
+    resetSearchIndex();
+    resetCryptoPool();
+    setBackgroundTask('');
+    setLoadStatus('');
     setActiveProfile(null);
     setIsUnlocked(false);
-    setVaultPin('');
+    setVaultKeys(null);
     setPinEntry('');
     setLoginName('');
     setFiles([]);
+    setHasMoreFiles(false);
+    setFolders([]);
+    setCurrentFolderId(null);
+    setCollections([]);
+    setActiveCollection(null);
+    setShowTrash(false);
     setSelectedIds(new Set());
     setIsSelectionMode(false);
     setShowMobileSidebar(false);
     setIsPickingFile(false);
-    sessionStorage.removeItem('infinity_vault_pin');
-    sessionStorage.removeItem('infinity_vault_profile_id');
+    setNoteEditor(null);
+    setPreviewFile(null);
+    stopCamera();
+    endSession().catch(err => console.error("Session cleanup failed", err));
     window.scrollTo(0, 0);
   };
 
+  const unlockProfile = async (profile: VaultProfile, pin: string): Promise<{ profile: VaultProfile, keys: VaultKeys }> => {
+    if (profile.keyWrap) {
+      const keys = await unlockVault(pin, profile.keyWrap);
+      return { profile, keys: await resolveLegacyKeys(profile.id, keys) };
+    }
+    // Profiles created before master keys get one on their first unlock
+    const { keyWrap, keys } = await createMasterKey(pin);
+    const upgraded = { ...profile, keyWrap };
+    await saveVaultProfile(upgraded);
+    return { profile: upgraded, keys };
+  };
+
+  // Upgrades legacy records in the background; a no-op unless a job is pending
+  const resumeMigration = (vaultId: string, keys: VaultKeys) => {
+    migrationAbortRef.current?.abort();
+    const controller = new AbortController();
+    migrationAbortRef.current = controller;
+    runMigration(vaultId, keys, {
+      signal: controller.signal,
+      onProgress: (done, total) => setBackgroundTask(`Upgrading vault ${done + 1}/${total}`),
+      onFile: (id, patch) => setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f))
+    })
+      .catch(err => console.error("Vault migration paused", err))
+      .finally(() => {
+        if (migrationAbortRef.current === controller) setBackgroundTask('');
+      });
+  };
+
+  const handleChangePin = async (currentPin: string, newPin: string) => {
+    if (!activeProfile || !vaultKeys) return;
+    if (!(await verifyPin(currentPin, activeProfile.verification))) throw new Error('InvalidPIN');
+
+    // Legacy records are bound to the current PIN; seal it into a job before it changes
+    const hasLegacyData = (await loadAllFiles()).some(needsMigration);
+    if (hasLegacyData) await startMigration(activeProfile.id, currentPin, vaultKeys);
+
+    const keyWrap = await rewrapMasterKey(currentPin, newPin, activeProfile.keyWrap!);
+    const verification = await createVerification(newPin);
+    const updated: VaultProfile = { ...activeProfile, keyWrap, verification };
+    await saveVaultProfile(updated);
+    setActiveProfile(updated);
+
+    if (hasLegacyData) resumeMigration(activeProfile.id, vaultKeys);
+  };
+
   const updateQuota = async () => {
     if (navigator.storage && navigator.storage.estimate) {
       const estimate = await navigator.storage.estimate();
@@ -212,67 +487,207 @@ export default function App() {
     }
   };
 
-  const loadFiles = async (forceVaultId?: string) => {
+  // Only the first page is read up front; the rest is read as the list is
+  // scrolled (loadMoreFiles). A newer load, or locking, supersedes one still
+  // running. Upkeep then goes over every record without keeping the list:
+  // files in unknown folders are placed, expired trash and versions beyond the
+  // vault's policy are cleared and notes are indexed. Resolves to all records.
+  const loadFiles = async (forceVaultId?: string, forceKeys?: VaultKeys): Promise<StoredFile[]> => {
     const id = forceVaultId || activeProfile?.id;
-    if (!id) return;
+    const keys = forceKeys || vaultKeys;
+    if (!id || !keys) return [];
+    const generation = ++loadGenerationRef.current;
+    nextPageRef.current = null;
+    pageLoadRef.current = null;
+    setLoadStatus('');
     setIsProcessing(true);
+    const searchLoad = loadSearchIndex(id, keys).catch(err => console.error("Search index failed to load", err));
     try {
-      const stored = await getFilesByVault(id);
-      setFiles([...stored]); // Fresh copy to trigger UI
+      const first = await getFilePage(id, keys);
+      if (generation !== loadGenerationRef.current) return [];
+      filesRef.current = first.files;
+      setFiles(first.files);
+      nextPageRef.current = first.next ? { vaultId: id, keys, after: first.next } : null;
+      setHasMoreFiles(!!first.next);
+      setIsProcessing(false);
+
+      const loaded = first.next ? await getFilesByVault(id, keys) : first.files;
+      if (generation !== loadGenerationRef.current) return loaded;
+      const tree = await loadFolderTree(id, keys, loaded);
+      const profile = (await getVaultProfiles()).find(p => p.id === id);
+      const purged = new Set(await purgeExpiredTrash(tree.files, profile?.trashRetentionDays ?? TRASH_RETENTION_DAYS).catch(err => {
+        console.error("Trash cleanup failed", err);
+        return [];
+      }));
+      const pruned = await pruneVersions(tree.files.filter(f => !purged.has(f.id)), profile?.versionPolicy ?? DEFAULT_VERSION_POLICY).catch(err => {
+        console.error("Version cleanup failed", err);
+        return [];
+      });
+      pruned.forEach(fileId => purged.add(fileId));
+      const remaining = tree.files.filter(f => !purged.has(f.id));
+      if (generation !== loadGenerationRef.current) return remaining;
+      // Notes restored from a backup have no search entry yet; they're small enough to index right away
+      searchLoad
+        .then(() => generation === loadGenerationRef.current && buildSearchIndex(remaining.filter(f => isNote(f) && !isTrashed(f)), keys))
+        .catch(err => console.error("Note indexing failed", err));
+      const placed = new Map(remaining.map(f => [f.id, f.folderId]));
+      setFolders(tree.folders);
+      setCollections(await getCollections(id, keys));
+      setFiles(prev => prev
+        .filter(f => !purged.has(f.id))
+        .map(f => placed.has(f.id) && f.folderId !== placed.get(f.id) ? { ...f, folderId: placed.get(f.id) } : f));
       await updateQuota();
+      return remaining;
     } catch (err) {
       console.error("Failed to load files", err);
+      return filesRef.current;
     } finally {
-      setIsProcessing(false);
+      if (generation === loadGenerationRef.current) setIsProcessing(false);
     }
   };
 
+  // Appends the next page. Calls made while a page is read share it.
+  const loadMoreFiles = (): Promise<void> => {
+    if (pageLoadRef.current) return pageLoadRef.current;
+    const cursor = nextPageRef.current;
+    if (!cursor) return Promise.resolve();
+    const generation = loadGenerationRef.current;
+    setLoadStatus('Loading more items');
+    const load = getFilePage(cursor.vaultId, cursor.keys, cursor.after).then(page => {
+      if (generation !== loadGenerationRef.current) return;
+      nextPageRef.current = page.next ? { ...cursor, after: page.next } : null;
+      setHasMoreFiles(!!page.next);
+      // Uploads finishing meanwhile are already in the list
+      const known = new Set(filesRef.current.map(f => f.id));
+      const added = page.files.filter(f => !known.has(f.id));
+      filesRef.current = [...filesRef.current, ...added];
+      setFiles(prev => {
+        const listed = new Set(prev.map(f => f.id));
+        return [...prev, ...added.filter(f => !listed.has(f.id))];
+      });
+    }).finally(() => {
+      if (pageLoadRef.current !== load) return;
+      pageLoadRef.current = null;
+      setLoadStatus('');
+    });
+    pageLoadRef.current = load;
+    return load;
+  };
+
+  // For actions that cover the whole vault or a file's whole history
+  const loadAllFiles = async (): Promise<StoredFile[]> => {
+    while (pageLoadRef.current || nextPageRef.current) await loadMoreFiles();
+    return filesRef.current;
+  };
+
   const handleExport = async () => {
     setIsProcessing(true);
+    setProcessingStatus('Packing Backup...');
     try {
-      const backup = await exportFullBackup();
-      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `infinity_vault_${new Date().toISOString().split('T')[0]}.vault`;
-      link.click();
-      URL.revokeObjectURL(url);
+      const fileName = `infinity_vault_${new Date().toISOString().split('T')[0]}.vault`;
+      const picker = (window as any).showSaveFilePicker;
+      if (picker) {
+        // Stream straight to disk where the File System Access API is available
+        let handle;
+        try {
+          handle = await picker({ suggestedName: fileName });
+        } catch (err) {
+          return; // Picker dismissed
+        }
+        await exportFullBackup().pipeTo(await handle.createWritable());
+      } else {
+        const blob = await new Response(exportFullBackup()).blob();
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
     } catch (err) {
+      console.error(err);
       alert('Export failed.');
     } finally {
       setIsProcessing(false);
+      setProcessingStatus('');
     }
   };
 
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || !e.target.files[0]) return;
     setIsProcessing(true);
+    setProcessingStatus('Restoring Backup...');
     try {
-      const file = e.target.files[0];
-      const text = await file.text();
-      const backup: VaultBackup = JSON.parse(text);
-      await importFullBackup(backup);
-      alert('Import successful.');
-      if (isUnlocked && activeProfile) await loadFiles(activeProfile.id);
+      const summary = await importFullBackup(e.target.files[0]);
+      if (summary.skipped > 0) {
+        alert(`Import finished. ${summary.skipped} damaged items from an older backup could not be restored.`);
+      } else {
+        alert('Import successful.');
+      }
+      if (isUnlocked && activeProfile) {
+        await loadFiles(activeProfile.id);
+        setThumbnailVersion(v => v + 1);
+      }
     } catch (err) {
+      console.error(err);
       alert('Import failed. Invalid format.');
     } finally {
       setIsProcessing(false);
+      setProcessingStatus('');
+      e.target.value = '';
     }
   };
 
+  const rootFolder = useMemo(() => getRootFolder(folders), [folders]);
+  const currentFolder = folders.find(f => f.id === currentFolderId) || null;
+  const breadcrumbs = useMemo(() => folderPath(folders, currentFolderId), [folders, currentFolderId]);
+  const subfolders = useMemo(() => currentFolderId && !searchQuery ? getChildFolders(folders, currentFolderId) : [], [folders, currentFolderId, searchQuery]);
+  // Older versions are only listed in the history of their file
+  const liveFiles = useMemo(() => files.filter(f => !isTrashed(f) && !isRevision(f)), [files]);
+  const trashedFiles = useMemo(() => files.filter(f => isTrashed(f) && !isRevision(f)), [files]);
+  const trashRetention = activeProfile?.trashRetentionDays ?? TRASH_RETENTION_DAYS;
+  const versionPolicy = activeProfile?.versionPolicy ?? DEFAULT_VERSION_POLICY;
+  const lockPolicy = activeProfile?.lockPolicy ?? DEFAULT_LOCK_POLICY;
+  const previewVersions = useMemo(() => previewFile && !isTrashed(previewFile) ? getRevisions(files, previewFile) : [], [files, previewFile]);
+  const allTags = useMemo(() => collectTags(liveFiles), [liveFiles]);
+  // New items land in the open folder, or the root when browsing the whole vault
+  const targetFolderId = currentFolder?.id || rootFolder?.id;
+
+  const contentMatches = useMemo(() => searchQuery ? searchContent(searchQuery) : new Map(), [searchQuery, searchIndexVersion]);
+
+  // Searching always covers the whole vault, and matches tags and document text as well as names
   const filteredAndSortedFiles = useMemo(() => {
-    return files
+    const query = searchQuery.toLowerCase();
+    const now = Date.now();
+    return (showTrash ? trashedFiles : liveFiles)
       .filter(f => (filter === 'all' || f.type === filter))
-      .filter(f => f.name.toLowerCase().includes(searchQuery.toLowerCase()))
+      .filter(f => !currentFolderId || searchQuery || f.folderId === currentFolderId)
+      .filter(f => !activeCollection || matchesRules(f, activeCollection.rules, now))
+      .filter(f => f.name.toLowerCase().includes(query) || !!f.tags?.some(tag => tag.includes(query)) || contentMatches.has(f.id))
       .sort((a, b) => {
         if (b.createdAt !== a.createdAt) {
           return b.createdAt - a.createdAt;
         }
         return a.name.localeCompare(b.name);
       });
-  }, [files, filter, searchQuery]);
+  }, [liveFiles, trashedFiles, showTrash, filter, searchQuery, contentMatches, currentFolderId, activeCollection]);
+
+  // Further pages are read as the list is scrolled; a view with nothing to show keeps reading until it has something
+  const loadMoreListed = () => loadMoreFiles().catch(err => console.error("Failed to load more files", err));
+
+  useEffect(() => {
+    if (hasMoreFiles && filteredAndSortedFiles.length === 0) loadMoreListed();
+  }, [hasMoreFiles, filteredAndSortedFiles]);
+
+  // Vault-wide counts and a file's history need every page
+  useEffect(() => {
+    if (showInfo || showMaintenance || previewFile?.versionGroupId) {
+      loadAllFiles().catch(err => console.error("Failed to load files", err));
+    }
+  }, [showInfo, showMaintenance, previewFile?.versionGroupId]);
+
+  // Notes open in their editor, so the preview steps over them
+  const previewList = useMemo(() => filteredAndSortedFiles.filter(f => !isNote(f)), [filteredAndSortedFiles]);
 
   const groupedFiles = useMemo(() => {
     const groups: { [key: string]: StoredFile[] } = {};
@@ -306,32 +721,60 @@ export default function App() {
       
       if (matchingProfiles.length === 0) throw new Error('NotFound');
       
+      // Vaults sharing a name are counted apart: a locked one is skipped. Every
+      // other one counts the attempt before the PIN is checked, and gets its
+      // previous count back if the PIN opens any of them.
+      const states = await Promise.all(matchingProfiles.map(p => getAttemptState(p.id)));
+      const candidates = matchingProfiles.filter((_, i) => !isLockedOut(states[i]));
+      if (candidates.length === 0) throw new LockedOutError(Math.min(...states.map(s => s.lockedUntil)));
+      const counted = await Promise.all(candidates.map(p => beginAttempt(p.id)));
+
       let authenticatedProfile: VaultProfile | null = null;
-      for (const profile of matchingProfiles) {
-        try {
-          const v = profile.verification;
-          await decryptFile(v.encryptedData, pinEntry, v.iv, v.salt);
+      for (const profile of candidates) {
+        if (await verifyPin(pinEntry, profile.verification)) {
           authenticatedProfile = profile;
           break;
-        } catch (err) { continue; }
+        }
       }
-      
-      if (!authenticatedProfile) throw new Error('InvalidPIN');
+
+      if (!authenticatedProfile) {
+        let wiped = false;
+        for (const [i, profile] of candidates.entries()) {
+          if (attemptsBeforeWipe(counted[i].failures, profile.wipeAfterFailures) === 0) {
+            await deleteVaultProfile(profile.id);
+            await clearAttempts(profile.id);
+            wiped = true;
+          }
+        }
+        throw new Error(wiped ? 'Wiped' : 'InvalidPIN');
+      }
+      await clearAttempts(authenticatedProfile.id);
+      await Promise.all(candidates
+        .filter(p => p !== authenticatedProfile)
+        .map(p => restoreAttempts(p.id, states[matchingProfiles.indexOf(p)])));
+      const { profile, keys } = await unlockProfile(authenticatedProfile, pinEntry);
       
       const persisted = await requestPersistence();
       setIsPersistent(persisted);
 
-      setVaultPin(pinEntry);
-      setActiveProfile(authenticatedProfile);
+      unlockedAtRef.current = Date.now();
+      setVaultKeys(keys);
+      setActiveProfile(profile);
       setIsUnlocked(true);
+      setPinEntry('');
       
-      // Session persistence for mobile stability
-      sessionStorage.setItem('infinity_vault_pin', pinEntry);
-      sessionStorage.setItem('infinity_vault_profile_id', authenticatedProfile.id);
+      // Session persistence for mobile stability: only the non-extractable keys are kept
+      await createSession(profile.id, keys);
       
-      await loadFiles(authenticatedProfile.id);
-    } catch (err) {
-      setError('Incorrect ID or PIN.');
+      // Records from older versions are upgraded while the PIN is at hand
+      const loaded = await loadFiles(profile.id, keys);
+      if (loaded.some(needsMigration)) await startMigration(profile.id, pinEntry, keys);
+      resumeMigration(profile.id, keys);
+    } catch (err: any) {
+      if (err instanceof LockedOutError) setError(`Too many attempts. Try again in ${formatWait(err.until - Date.now())}.`);
+      else if (err?.message === 'Wiped') setError('Too many failed attempts. The vault has been wiped.');
+      else setError('Incorrect ID or PIN.');
+      setLoginAttempts(await refreshLoginAttempts(loginName).catch(() => null));
     } finally {
       setIsProcessing(false);
     }
@@ -342,13 +785,14 @@ export default function App() {
     if (loginName.trim().length < 2 || pinEntry.length < 4) return;
     setIsProcessing(true);
     try {
-      const checkData = new TextEncoder().encode("VERIFIED");
-      const { encryptedData, iv, salt } = await encryptFile(checkData, pinEntry);
+      const verification = await createVerification(pinEntry);
+      const { keyWrap, keys } = await createMasterKey(pinEntry);
       const newProfile: VaultProfile = {
         id: crypto.randomUUID(),
         name: loginName.trim(),
         avatarColor: AVATAR_COLORS[Math.floor(Math.random() * AVATAR_COLORS.length)],
-        verification: { encryptedData, iv, salt },
+        verification,
+        keyWrap,
         createdAt: Date.now()
       };
       await saveVaultProfile(newProfile);
@@ -356,10 +800,14 @@ export default function App() {
       const persisted = await requestPersistence();
       setIsPersistent(persisted);
 
-      setVaultPin(pinEntry);
+      unlockedAtRef.current = Date.now();
+      setVaultKeys(keys);
       setActiveProfile(newProfile);
       setIsUnlocked(true);
+      setPinEntry('');
       setFiles([]);
+      await createSession(newProfile.id, keys);
+      setFolders((await loadFolderTree(newProfile.id, keys, [])).folders);
     } catch (err) {
       setError('Vault creation failed.');
     } finally {
@@ -386,7 +834,7 @@ export default function App() {
   };
 
   const capturePhoto = async () => {
-    if (!videoRef.current || !activeProfile) return;
+    if (!videoRef.current || !activeProfile || !vaultKeys) return;
     setIsProcessing(true);
     setProcessingStatus('Securing Photo...');
     try {
@@ -396,8 +844,10 @@ export default function App() {
       canvas.getContext('2d')?.drawImage(videoRef.current, 0, 0);
       const blob = await new Promise<Blob | null>(res => canvas.toBlob(res, 'image/jpeg', 0.9));
       if (!blob) return;
-      const { encryptedData, iv, salt, compressedSize, isCompressed } = await encryptFile(await blob.arrayBuffer(), vaultPin);
-      await saveFile({
+      const data = await blob.arrayBuffer();
+      const contentHash = await hashContent(data, vaultKeys);
+      const { encryptedData, iv, salt, compressedSize, isCompressed, keyScheme } = await encryptFile(data, vaultKeys);
+      const photo: StoredFile = {
         id: crypto.randomUUID(),
         vaultId: activeProfile.id,
         name: `INFINITY_SNAP_${Date.now()}.jpg`,
@@ -409,10 +859,16 @@ export default function App() {
         encryptedData,
         iv,
         salt,
+        keyScheme,
+        contentHash,
+        folderId: targetFolderId,
         createdAt: Date.now()
-      });
+      };
+      await saveFile(photo, vaultKeys);
+      await generateThumbnail(photo, blob, vaultKeys);
       stopCamera();
-      await loadFiles(activeProfile.id);
+      setFiles(prev => [...prev, { ...photo, encryptedData: undefined }]);
+      await updateQuota();
     } catch (e: any) {
       if (e.name === 'QuotaExceededError') {
         alert("Storage Full! Please delete some files to make space.");
@@ -425,7 +881,7 @@ export default function App() {
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement> | React.DragEvent) => {
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement> | React.DragEvent) => {
     let uploadList: File[] = [];
     if ('files' in e.target && e.target.files) {
       uploadList = Array.from(e.target.files);
@@ -434,106 +890,18 @@ export default function App() {
     }
     
     setIsPickingFile(false);
-    if (uploadList.length === 0 || !activeProfile) return;
+    setIsDragging(false);
+    // Reset input value to allow re-uploading same files
+    if (e.target && 'value' in e.target) {
+      (e.target as any).value = '';
+    }
+    if (uploadList.length === 0 || !activeProfile || !vaultKeys) return;
 
     // Check for extremely large files (> 2GB)
     const tooLarge = uploadList.some(f => f.size > 2000 * 1024 * 1024);
     if (tooLarge && !confirm("Some files are extremely large (>2GB). While the vault supports this, it may take a long time. Continue?")) return;
 
-    setIsProcessing(true);
-    try {
-      let count = 0;
-      for (const file of uploadList) {
-        count++;
-        setProcessingStatus(`Processing ${count}/${uploadList.length}: ${file.name}`);
-        
-        const isVideo = file.type.startsWith('video/');
-        const isImage = file.type.startsWith('image/');
-        const isLarge = file.size > 15 * 1024 * 1024; // 15MB threshold for media
-        const isExtremelyLarge = file.size > 25 * 1024 * 1024; // 25MB threshold for chunking
-
-        let type: FileType = 'other';
-        if (file.type.startsWith('image/')) type = 'image';
-        else if (file.type.startsWith('video/')) type = 'video';
-        else if (file.type.includes('pdf')) type = 'document';
-
-        if (isExtremelyLarge) {
-          // Chunked Upload for Large Files
-          const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB chunks
-          const salt = crypto.getRandomValues(new Uint8Array(16));
-          const chunkIds: string[] = [];
-          const chunkIvs: Uint8Array[] = [];
-          
-          const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-          for (let i = 0; i < totalChunks; i++) {
-            setProcessingStatus(`Encrypting ${file.name} (Part ${i + 1}/${totalChunks})...`);
-            const start = i * CHUNK_SIZE;
-            const end = Math.min(start + CHUNK_SIZE, file.size);
-            const chunkBuffer = await file.slice(start, end).arrayBuffer();
-            const { encryptedData, iv } = await encryptChunk(chunkBuffer, vaultPin, salt);
-            
-            const chunkId = crypto.randomUUID();
-            await saveChunk(chunkId, encryptedData);
-            chunkIds.push(chunkId);
-            chunkIvs.push(iv);
-          }
-
-          await saveFile({
-            id: crypto.randomUUID(),
-            vaultId: activeProfile.id,
-            name: file.name,
-            type,
-            mimeType: file.type,
-            size: file.size,
-            compressedSize: file.size, // No compression for large files
-            isCompressed: false,
-            iv: new Uint8Array(12), // Dummy for chunked
-            salt,
-            isChunked: true,
-            chunkIds,
-            chunkIvs,
-            createdAt: Date.now()
-          });
-        } else {
-          // Normal Upload
-          const skipCompression = (isVideo || isImage) && isLarge;
-          const { encryptedData, iv, salt, compressedSize, isCompressed } = await encryptFile(await file.arrayBuffer(), vaultPin, skipCompression);
-          
-          await saveFile({
-            id: crypto.randomUUID(),
-            vaultId: activeProfile.id,
-            name: file.name,
-            type,
-            mimeType: file.type,
-            size: file.size,
-            compressedSize,
-            isCompressed,
-            encryptedData,
-            iv,
-            salt,
-            createdAt: Date.now()
-          });
-        }
-
-        if (uploadList.length > 1) await new Promise(r => setTimeout(r, 100));
-      }
-      await loadFiles(activeProfile.id);
-    } catch (e: any) {
-      if (e.name === 'QuotaExceededError') {
-        alert("Storage Full! Some files could not be saved.");
-      } else {
-        console.error(e);
-        alert("Upload failed. This usually happens with very large files on mobile devices due to memory limits.");
-      }
-    } finally {
-      setIsProcessing(false);
-      setProcessingStatus('');
-      setIsDragging(false);
-      // Reset input value to allow re-uploading same files
-      if (e.target && 'value' in e.target) {
-        (e.target as any).value = '';
-      }
-    }
+    enqueueUploads(uploadList, targetFolderId);
   };
 
   const toggleSelection = (id: string) => {
@@ -545,17 +913,140 @@ export default function App() {
     });
   };
 
+  // Outside the trash, deleting only moves files there
   const handleBatchDelete = async () => {
-    if (selectedIds.size === 0) return;
-    if (!confirm(`Delete ${selectedIds.size} items forever?`)) return;
+    if (selectedIds.size === 0 || !vaultKeys) return;
+    if (!confirm(showTrash ? `Delete ${selectedIds.size} items forever?` : `Move ${selectedIds.size} items to Trash?`)) return;
     setIsProcessing(true);
     try {
-      for (const id of selectedIds) {
-        await deleteFile(id);
+      if (showTrash) {
+        const ids = withHistory(await loadAllFiles(), [...selectedIds]);
+        await purgeFiles(ids);
+        setFiles(prev => prev.filter(f => !ids.includes(f.id)));
+        await updateQuota();
+      } else {
+        await trashFiles([...selectedIds]);
       }
-      setFiles(prev => prev.filter(f => !selectedIds.has(f.id)));
       setSelectedIds(new Set());
       setIsSelectionMode(false);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const trashFiles = async (ids: string[]) => {
+    const deletedAt = Date.now();
+    const trashed = new Set(await moveToTrash(ids, vaultKeys!, deletedAt));
+    setFiles(prev => prev.map(f => trashed.has(f.id) ? { ...f, deletedAt } : f));
+  };
+
+  // Notes open in the editor, read-only while in the trash
+  // The ref is set at once: the picker can blur the page before the next render
+  const startPicking = () => {
+    isPickingFileRef.current = true;
+    setIsPickingFile(true);
+  };
+
+  const openFile = (file: StoredFile) => isNote(file) ? setNoteEditor(file) : setPreviewFile(file);
+
+  const handleNoteSaved = (saved: StoredFile) => {
+    const note = { ...saved, encryptedData: undefined };
+    setFiles(prev => prev.some(f => f.id === note.id) ? prev.map(f => f.id === note.id ? note : f) : [note, ...prev]);
+    updateQuota();
+  };
+
+  const handlePutBack = async (ids: string[]) => {
+    if (!vaultKeys) return;
+    setIsProcessing(true);
+    try {
+      const restored = await restoreFromTrash(files.filter(f => ids.includes(f.id)), new Set(folders.map(f => f.id)), rootFolder?.id, vaultKeys);
+      const byId = new Map(restored.map(f => [f.id, f]));
+      setFiles(prev => prev.map(f => byId.has(f.id) ? { ...f, deletedAt: undefined, folderId: byId.get(f.id)!.folderId } : f));
+      setSelectedIds(new Set());
+      setIsSelectionMode(false);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const all = await loadAllFiles();
+    const trashed = all.filter(f => isTrashed(f) && !isRevision(f));
+    if (trashed.length === 0) return;
+    if (!confirm(`Delete all ${trashed.length} items in Trash forever?`)) return;
+    setIsProcessing(true);
+    setProcessingStatus('Emptying Trash...');
+    try {
+      const ids = withHistory(all, trashed.map(f => f.id));
+      await purgeFiles(ids);
+      setFiles(prev => prev.filter(f => !ids.includes(f.id)));
+      await updateQuota();
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    if (!activeProfile) return;
+    const updated: VaultProfile = { ...activeProfile, trashRetentionDays: days };
+    await saveVaultProfile(updated);
+    setActiveProfile(updated);
+    const purged = await purgeExpiredTrash(await loadAllFiles(), days);
+    if (purged.length > 0) {
+      setFiles(prev => prev.filter(f => !purged.includes(f.id)));
+      await updateQuota();
+    }
+  };
+
+  const handleVersionPolicyChange = async (policy: VersionPolicy) => {
+    if (!activeProfile) return;
+    const updated: VaultProfile = { ...activeProfile, versionPolicy: policy };
+    await saveVaultProfile(updated);
+    setActiveProfile(updated);
+    const pruned = await pruneVersions(await loadAllFiles(), policy);
+    if (pruned.length > 0) {
+      setFiles(prev => prev.filter(f => !pruned.includes(f.id)));
+      await updateQuota();
+    }
+  };
+
+  const handleLockPolicyChange = async (policy: LockPolicy) => {
+    if (!activeProfile) return;
+    const updated: VaultProfile = { ...activeProfile, lockPolicy: policy };
+    await saveVaultProfile(updated);
+    setActiveProfile(updated);
+  };
+
+  const handleWipeAfterChange = async (wipeAfterFailures?: number) => {
+    if (!activeProfile) return;
+    const updated: VaultProfile = { ...activeProfile, wipeAfterFailures };
+    await saveVaultProfile(updated);
+    setActiveProfile(updated);
+  };
+
+  // The restored version takes the current one's place, which joins the history
+  const handleRestoreVersion = async (revision: StoredFile) => {
+    if (!previewFile || !vaultKeys) return;
+    setIsProcessing(true);
+    try {
+      const { restored, superseded } = await restoreVersion(revision, previewFile, vaultKeys);
+      setFiles(prev => prev.map(f => f.id === restored.id ? restored : f.id === superseded.id ? superseded : f));
+      setPreviewFile(restored);
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message || 'Could not restore this version.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDeleteVersion = async (revision: StoredFile) => {
+    if (!confirm(`Delete the version from ${new Date(revision.createdAt).toLocaleString()} forever?`)) return;
+    setIsProcessing(true);
+    try {
+      await deleteFile(revision.id);
+      setFiles(prev => prev.filter(f => f.id !== revision.id));
       await updateQuota();
     } finally {
       setIsProcessing(false);
@@ -568,7 +1059,7 @@ export default function App() {
     try {
       const selectedFiles = files.filter(f => selectedIds.has(f.id));
       for (const file of selectedFiles) {
-        await handleDownload(file);
+        await handleDownload(file, false);
         await new Promise(r => setTimeout(r, 600));
       }
       setSelectedIds(new Set());
@@ -586,131 +1077,332 @@ export default function App() {
     }
   };
 
-  const confirmDeleteFile = async () => {
-    if (!fileToDelete || !activeProfile) return;
-    const id = fileToDelete;
+  const selectFilter = (type: FileType | 'all') => {
+    setFilter(type);
+    setCurrentFolderId(null);
+    setActiveCollection(null);
+    setShowTrash(false);
+    setShowMobileSidebar(false);
+  };
+
+  const openTrash = () => {
+    selectFilter('all');
+    setSelectedIds(new Set());
+    setShowTrash(true);
+  };
+
+  const openCollection = (collection: SmartCollection) => {
+    setFilter('all');
+    setCurrentFolderId(null);
+    setShowTrash(false);
+    setActiveCollection(collection);
+    setSelectedIds(new Set());
+    setShowMobileSidebar(false);
+  };
+
+  const openFolder = (id: string) => {
+    setFilter('all');
+    setSearchQuery('');
+    setActiveCollection(null);
+    setShowTrash(false);
+    setCurrentFolderId(id);
+    setSelectedIds(new Set());
+    setShowMobileSidebar(false);
+  };
+
+  const handleSaveFolder = async (name: string, kind: FolderKind) => {
+    if (!folderDraft || !activeProfile || !vaultKeys) return;
     setIsProcessing(true);
     try {
-      await deleteFile(id);
-      setFiles(prev => prev.filter(f => f.id !== id));
-      await updateQuota();
-      setFileToDelete(null);
+      if (folderDraft.folder) {
+        const updated = await updateFolder(folderDraft.folder, { name, kind }, vaultKeys);
+        setFolders(prev => prev.map(f => f.id === updated.id ? updated : f));
+      } else {
+        const created = await createFolder(activeProfile.id, folderDraft.parentId!, name, kind, vaultKeys);
+        setFolders(prev => [...prev, created]);
+      }
+      setFolderDraft(null);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleRename = async (newName: string) => {
-    if (!fileToRename) return;
+  const handleMoveFolder = async (parentId: string) => {
+    if (!folderToMove || !vaultKeys) return;
     setIsProcessing(true);
     try {
-      const updated = { ...fileToRename, name: newName };
-      await updateFile(updated);
-      setFiles(prev => prev.map(f => f.id === updated.id ? updated : f));
-      setFileToRename(null);
+      const moved = await moveFolder(folders, folderToMove, parentId, vaultKeys);
+      setFolders(prev => prev.map(f => f.id === moved.id ? moved : f));
+      setFolderToMove(null);
+    } catch (err: any) {
+      alert(err.message);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleDownload = async (file: StoredFile) => {
+  const handleDeleteFolder = async (folder: Folder) => {
+    if (!vaultKeys) return;
+    if (!confirm(`Delete "${folder.name}"? Everything inside moves up to the parent folder.`)) return;
     setIsProcessing(true);
     try {
-      let blob: Blob;
-      if (file.isChunked && file.chunkIds && file.chunkIvs) {
-        const chunks: ArrayBuffer[] = [];
-        for (let i = 0; i < file.chunkIds.length; i++) {
-          setProcessingStatus(`Restoring ${file.name} (Part ${i + 1}/${file.chunkIds.length})...`);
-          const encryptedChunk = await getChunk(file.chunkIds[i]);
-          const decryptedChunk = await decryptChunk(encryptedChunk, vaultPin, file.chunkIvs[i], file.salt);
-          chunks.push(decryptedChunk);
-        }
-        blob = new Blob(chunks, { type: file.mimeType });
-      } else {
-        const decrypted = await decryptFile(file.encryptedData!, vaultPin, file.iv, file.salt, file.isCompressed);
-        blob = new Blob([decrypted], { type: file.mimeType });
-      }
-      
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = file.name;
-      link.click();
-      URL.revokeObjectURL(url);
+      await deleteFolder(folder, folders, await loadAllFiles(), vaultKeys);
+      setFolders(prev => prev.filter(f => f.id !== folder.id).map(f => f.parentId === folder.id ? { ...f, parentId: folder.parentId } : f));
+      setFiles(prev => prev.map(f => f.folderId === folder.id ? { ...f, folderId: folder.parentId! } : f));
+      if (currentFolderId === folder.id) setCurrentFolderId(folder.parentId);
+    } catch (err) {
+      console.error(err);
+      alert('Could not delete the folder.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleMoveSelected = async (folderId: string) => {
+    if (!vaultKeys) return;
+    setIsProcessing(true);
+    setProcessingStatus('Moving...');
+    try {
+      const moved = new Set(await moveFiles([...selectedIds], folderId, vaultKeys));
+      setFiles(prev => prev.map(f => moved.has(f.id) ? { ...f, folderId } : f));
+      setShowMoveFiles(false);
+      setSelectedIds(new Set());
+      setIsSelectionMode(false);
     } finally {
       setIsProcessing(false);
       setProcessingStatus('');
     }
   };
 
-  const handleDownloadAll = async () => {
-    if (!confirm(`Restore all ${files.length} items?`)) return;
+  const handleCopySelected = async (folderId: string) => {
+    if (!vaultKeys) return;
     setIsProcessing(true);
     try {
-      for (const file of files) {
-        await handleDownload(file);
-        await new Promise(r => setTimeout(r, 600));
-      }
-      alert("All files restored.");
+      const copies = await copyFiles(files.filter(f => selectedIds.has(f.id)), folderId, vaultKeys, {
+        onProgress: (done, total) => setProcessingStatus(`Copying ${Math.min(done + 1, total)}/${total}...`)
+      });
+      setFiles(prev => [...prev, ...copies]);
+      setShowMoveFiles(false);
+      setSelectedIds(new Set());
+      setIsSelectionMode(false);
+      await updateQuota();
+    } catch (e: any) {
+      console.error(e);
+      alert(e?.name === 'QuotaExceededError' ? "Storage Full! Please delete some files to make space." : 'Copy failed.');
     } finally {
       setIsProcessing(false);
       setProcessingStatus('');
     }
   };
 
-  const stats = useMemo<StorageStats>(() => {
-    const originalSize = files.reduce((acc, f) => acc + f.size, 0);
-    const compressedSize = files.reduce((acc, f) => acc + f.compressedSize, 0);
-    const saved = Math.max(0, originalSize - compressedSize);
-    const percent = originalSize > 0 ? Math.round((saved / originalSize) * 100) : 0;
-    
-    return {
-      used: compressedSize,
-      total: quota.total,
-      saved,
-      savedPercent: percent,
-      imageCount: files.filter(f => f.type === 'image').length,
-      videoCount: files.filter(f => f.type === 'video').length,
-      docCount: files.filter(f => f.type === 'document').length
-    };
-  }, [files, quota]);
+  // Only tags and favorites are taken from the updates, so fields changed meanwhile
+  // (a migration finishing, say) aren't rolled back.
+  const mergeLabels = (updated: StoredFile[]) => {
+    const byId = new Map(updated.map(f => [f.id, f]));
+    setFiles(prev => prev.map(f => byId.has(f.id) ? { ...f, tags: byId.get(f.id)!.tags, isFavorite: byId.get(f.id)!.isFavorite } : f));
+  };
 
-  if (!isUnlocked) {
-    return (
-      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center p-6 text-white font-sans overflow-y-auto">
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-[3rem] p-10 shadow-2xl relative"
-        >
-          <div className="flex justify-center mb-6">
-            <motion.div
-              animate={{ rotate: [0, 10, -10, 0] }}
-              transition={{ repeat: Infinity, duration: 5, ease: "linear" }}
-            >
-              <InfinityLogo className="w-20 h-20 text-indigo-400" />
-            </motion.div>
-          </div>
-          <h1 className="text-5xl font-brand font-black text-center mb-1 tracking-tight text-white">infinity</h1>
-          <p className="text-slate-500 text-center mb-10 text-[11px] font-black uppercase tracking-[0.2em] opacity-80">secure vault</p>
-          
-          {authMode === 'register' && (
-            <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl">
-              <div className="flex items-center gap-2 text-amber-500 mb-1">
-                <ExclamationTriangleIcon className="w-4 h-4" />
-                <span className="text-[10px] font-black uppercase tracking-widest">Security Notice</span>
-              </div>
-              <p className="text-[10px] text-slate-400 font-bold leading-tight">
-                This vault is 100% local. We never store your PIN. If you forget it or clear browser data, your files are lost forever.
-              </p>
-            </div>
-          )}
+  const handleToggleFavorite = async (file: StoredFile) => {
+    if (!vaultKeys) return;
+    mergeLabels(await setFavorite([file], !file.isFavorite, vaultKeys));
+  };
 
-          <form onSubmit={authMode === 'login' ? handleLogin : handleCreateProfile} className="space-y-4">
-            <input type="text" placeholder="Vault ID" className="w-full bg-slate-800 border-none rounded-2xl py-5 px-6 text-white font-bold text-center focus:ring-2 focus:ring-indigo-500 outline-none" value={loginName} onChange={(e) => setLoginName(e.target.value)} required />
-            <input type="password" placeholder="PIN" maxLength={8} className="w-full bg-slate-800 border-none rounded-2xl py-5 text-center text-4xl tracking-[0.5em] font-black focus:ring-2 focus:ring-indigo-500 outline-none" value={pinEntry} onChange={(e) => setPinEntry(e.target.value)} required />
-            <AnimatePresence>
-              {error && (
+  const handleBatchFavorite = async () => {
+    if (!vaultKeys) return;
+    const selected = liveFiles.filter(f => selectedIds.has(f.id));
+    setIsProcessing(true);
+    try {
+      mergeLabels(await setFavorite(selected, !selected.every(f => f.isFavorite), vaultKeys));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleApplyTags = async (add: string[], remove: string[]) => {
+    if (!tagTargets || !vaultKeys) return;
+    setIsProcessing(true);
+    setProcessingStatus('Tagging...');
+    try {
+      const ids = new Set(tagTargets.map(f => f.id));
+      // Tag the latest state, not the one the editor was opened with
+      mergeLabels(await applyTags(files.filter(f => ids.has(f.id)), add, remove, vaultKeys));
+      setTagTargets(null);
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleSaveCollection = async (name: string, rules: CollectionRules) => {
+    if (!collectionDraft || !activeProfile || !vaultKeys) return;
+    setIsProcessing(true);
+    try {
+      const saved = collectionDraft.collection
+        ? await updateCollection(collectionDraft.collection, { name, rules }, vaultKeys)
+        : await createCollection(activeProfile.id, name, rules, vaultKeys);
+      setCollections(prev => [...prev.filter(c => c.id !== saved.id), saved]);
+      openCollection(saved);
+      setCollectionDraft(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDeleteCollection = async (collection: SmartCollection) => {
+    if (!confirm(`Delete the collection "${collection.name}"? Your files are not affected.`)) return;
+    await deleteCollection(collection.id);
+    setCollections(prev => prev.filter(c => c.id !== collection.id));
+    if (activeCollection?.id === collection.id) setActiveCollection(null);
+    setCollectionDraft(null);
+  };
+
+  const confirmDeleteFile = async () => {
+    if (!fileToDelete || !activeProfile || !vaultKeys) return;
+    const id = fileToDelete;
+    setIsProcessing(true);
+    try {
+      if (showTrash) {
+        const ids = withHistory(await loadAllFiles(), [id]);
+        await purgeFiles(ids);
+        setFiles(prev => prev.filter(f => !ids.includes(f.id)));
+        await updateQuota();
+      } else {
+        await trashFiles([id]);
+      }
+      setFileToDelete(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRename = async (newName: string) => {
+    if (!fileToRename || !vaultKeys) return;
+    setIsProcessing(true);
+    try {
+      if (await patchFile(fileToRename.id, { name: newName }, vaultKeys)) {
+        setFiles(prev => prev.map(f => f.id === fileToRename.id ? { ...f, name: newName } : f));
+      }
+      setFileToRename(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Interactive downloads may ask where to save; batch downloads can't, as the
+  // save picker needs a fresh user gesture for every file.
+  const handleDownload = async (file: StoredFile, interactive = true) => {
+    if (!vaultKeys) return;
+    setIsProcessing(true);
+    setProcessingStatus(`Restoring ${file.name}...`);
+    try {
+      await saveFileToDisk(file, vaultKeys, { interactive });
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof IntegrityError
+        ? `${file.name} is damaged and was not restored. ${err.message}`
+        : `Could not restore ${file.name}.`);
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    const all = (await loadAllFiles()).filter(f => !isTrashed(f) && !isRevision(f));
+    if (!confirm(`Restore all ${all.length} items?`)) return;
+    setIsProcessing(true);
+    try {
+      for (const file of all) {
+        await handleDownload(file, false);
+        await new Promise(r => setTimeout(r, 600));
+      }
+      alert("All files restored.");
+    } finally {
+      setIsProcessing(false);
+      setProcessingStatus('');
+    }
+  };
+
+  const stats = useMemo<StorageStats>(() => {
+    const originalSize = files.reduce((acc, f) => acc + f.size, 0);
+    const compressedSize = files.reduce((acc, f) => acc + f.compressedSize, 0);
+    // Chunks referenced by more than one file are only stored once
+    const chunkSizes = new Map<string, number>();
+    let chunkedSize = 0;
+    for (const f of files) {
+      f.chunkIds?.forEach((id, i, ids) => {
+        // A file's only chunk holds all of it; otherwise every chunk but the last is full
+        const size = ids.length === 1 ? f.compressedSize : Math.min(CHUNK_SIZE, f.compressedSize - i * CHUNK_SIZE);
+        chunkSizes.set(id, size);
+        chunkedSize += size;
+      });
+    }
+    const deduplicated = chunkedSize - [...chunkSizes.values()].reduce((acc, size) => acc + size, 0);
+    const used = compressedSize - deduplicated;
+    const saved = Math.max(0, originalSize - used);
+    const percent = originalSize > 0 ? Math.round((saved / originalSize) * 100) : 0;
+    const history = files.filter(isRevision);
+    
+    return {
+      used,
+      total: quota.total,
+      saved,
+      deduplicated,
+      savedPercent: percent,
+      historySize: history.reduce((acc, f) => acc + f.compressedSize, 0),
+      historyCount: history.length,
+      imageCount: liveFiles.filter(f => f.type === 'image').length,
+      videoCount: liveFiles.filter(f => f.type === 'video').length,
+      docCount: liveFiles.filter(f => f.type === 'document').length,
+      noteCount: liveFiles.filter(f => f.type === 'note').length
+    };
+  }, [files, liveFiles, quota]);
+
+  if (!isUnlocked) {
+    const isLockedOut = !!loginAttempts && loginAttempts.lockedUntil > clock;
+    const beforeWipe = loginAttempts && attemptsBeforeWipe(loginAttempts.failures, loginAttempts.wipeAfter);
+    const beforeLockout = loginAttempts ? attemptsBeforeLockout(loginAttempts.failures) : 0;
+    const attemptNotice = !loginAttempts || loginAttempts.failures === 0 ? ''
+      : isLockedOut ? `Locked · try again in ${formatWait(loginAttempts.lockedUntil - clock)}`
+      : beforeWipe !== undefined ? `${beforeWipe} attempt${beforeWipe === 1 ? '' : 's'} left before this vault is wiped`
+      : beforeLockout > 0 ? `${beforeLockout} attempt${beforeLockout === 1 ? '' : 's'} left before a lockout`
+      : `Each failed attempt locks for ${formatWait(lockoutFor(loginAttempts.failures + 1))}`;
+
+    return (
+      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center p-6 text-white font-sans overflow-y-auto">
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-[3rem] p-10 shadow-2xl relative"
+        >
+          <div className="flex justify-center mb-6">
+            <motion.div
+              animate={{ rotate: [0, 10, -10, 0] }}
+              transition={{ repeat: Infinity, duration: 5, ease: "linear" }}
+            >
+              <InfinityLogo className="w-20 h-20 text-indigo-400" />
+            </motion.div>
+          </div>
+          <h1 className="text-5xl font-brand font-black text-center mb-1 tracking-tight text-white">infinity</h1>
+          <p className="text-slate-500 text-center mb-10 text-[11px] font-black uppercase tracking-[0.2em] opacity-80">secure vault</p>
+          
+          {authMode === 'register' && (
+            <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl">
+              <div className="flex items-center gap-2 text-amber-500 mb-1">
+                <ExclamationTriangleIcon className="w-4 h-4" />
+                <span className="text-[10px] font-black uppercase tracking-widest">Security Notice</span>
+              </div>
+              <p className="text-[10px] text-slate-400 font-bold leading-tight">
+                This vault is 100% local. We never store your PIN. If you forget it or clear browser data, your files are lost forever.
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={authMode === 'login' ? handleLogin : handleCreateProfile} className="space-y-4">
+            <input type="text" placeholder="Vault ID" className="w-full bg-slate-800 border-none rounded-2xl py-5 px-6 text-white font-bold text-center focus:ring-2 focus:ring-indigo-500 outline-none" value={loginName} onChange={(e) => setLoginName(e.target.value)} required />
+            <input type="password" placeholder="PIN" maxLength={64} className="w-full bg-slate-800 border-none rounded-2xl py-5 text-center text-4xl tracking-[0.5em] font-black focus:ring-2 focus:ring-indigo-500 outline-none" value={pinEntry} onChange={(e) => setPinEntry(e.target.value)} required />
+            <AnimatePresence>
+              {error && (
                 <motion.div 
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -721,7 +1413,10 @@ export default function App() {
                 </motion.div>
               )}
             </AnimatePresence>
-            <button disabled={isProcessing} className="w-full bg-indigo-600 py-5 rounded-2xl font-black flex justify-center items-center gap-3 uppercase text-xs tracking-widest hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-600/20 active:scale-95">
+            {authMode === 'login' && attemptNotice && (
+              <p className="text-amber-500 text-[10px] font-black uppercase tracking-widest text-center">{attemptNotice}</p>
+            )}
+            <button disabled={isProcessing || (authMode === 'login' && isLockedOut)} className="w-full bg-indigo-600 py-5 rounded-2xl font-black flex justify-center items-center gap-3 uppercase text-xs tracking-widest hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-600/20 active:scale-95">
               {isProcessing ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : (authMode === 'login' ? 'Open Safe' : 'Register Profile')}
             </button>
           </form>
@@ -789,13 +1484,45 @@ export default function App() {
             </button>
           </div>
           <nav className="space-y-2 mb-10">
-            <SidebarItem icon={<FolderIcon />} label="All Safe Files" active={filter === 'all'} onClick={() => { setFilter('all'); setShowMobileSidebar(false); }} />
-            <SidebarItem icon={<PhotoIcon />} label="Gallery" active={filter === 'image'} onClick={() => { setFilter('image'); setShowMobileSidebar(false); }} />
-            <SidebarItem icon={<VideoCameraIcon />} label="Recordings" active={filter === 'video'} onClick={() => { setFilter('video'); setShowMobileSidebar(false); }} />
-            <SidebarItem icon={<DocumentIcon />} label="Documents" active={filter === 'document'} onClick={() => { setFilter('document'); setShowMobileSidebar(false); }} />
+            <SidebarItem icon={<FolderIcon />} label="All Safe Files" active={filter === 'all' && !currentFolderId && !activeCollection && !showTrash} onClick={() => selectFilter('all')} />
+            <SidebarItem icon={<PhotoIcon />} label="Gallery" active={filter === 'image'} onClick={() => selectFilter('image')} />
+            <SidebarItem icon={<VideoCameraIcon />} label="Recordings" active={filter === 'video'} onClick={() => selectFilter('video')} />
+            <SidebarItem icon={<MusicalNoteIcon />} label="Audio" active={filter === 'audio'} onClick={() => selectFilter('audio')} />
+            <SidebarItem icon={<DocumentIcon />} label="Documents" active={filter === 'document'} onClick={() => selectFilter('document')} />
+            <SidebarItem icon={<DocumentTextIcon />} label="Notes" active={filter === 'note'} onClick={() => selectFilter('note')} />
+            <SidebarItem icon={<StarIcon />} label="Favorites" active={activeCollection?.id === FAVORITES_VIEW.id} onClick={() => openCollection(FAVORITES_VIEW)} />
+            <SidebarItem icon={<TrashIcon />} label={trashedFiles.length ? `Trash (${trashedFiles.length})` : 'Trash'} active={showTrash} onClick={openTrash} />
             <SidebarItem icon={<InformationCircleIcon />} label="Help & FAQ" active={false} onClick={() => { setShowHelp(true); setShowMobileSidebar(false); }} />
           </nav>
 
+          {rootFolder && (
+            <div className="mb-10">
+              <div className="flex items-center justify-between px-6 mb-3">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Folders</span>
+                <button onClick={() => setFolderDraft({ parentId: targetFolderId })} title="New Folder or Album" className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors"><FolderPlusIcon className="w-5 h-5" /></button>
+              </div>
+              <FolderTree folders={folders} folder={rootFolder} depth={0} currentFolderId={currentFolderId} onOpen={openFolder} />
+            </div>
+          )}
+
+          <div className="mb-10">
+            <div className="flex items-center justify-between px-6 mb-3">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Smart Collections</span>
+              <button onClick={() => setCollectionDraft({})} title="New Smart Collection" className="p-1.5 text-slate-400 hover:text-indigo-600 transition-colors"><SparklesIcon className="w-5 h-5" /></button>
+            </div>
+            {collections.length === 0 && <p className="px-6 text-[11px] font-bold text-slate-300">Save a filter, like "videos tagged client-x from the last 30 days".</p>}
+            {[...collections].sort((a, b) => a.name.localeCompare(b.name)).map(collection => (
+              <CollectionItem key={collection.id} collection={collection} active={activeCollection?.id === collection.id} onOpen={() => openCollection(collection)} onEdit={() => setCollectionDraft({ collection })} />
+            ))}
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 px-6 mt-4">
+                {allTags.slice(0, 12).map(tag => (
+                  <TagChip key={tag} tag={tag} active={activeCollection?.id === tagView(tag).id} onClick={() => openCollection(tagView(tag))} />
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="space-y-4">
              {/* Storage Card: Sidebar only */}
              <div className="bg-slate-900 text-white p-7 rounded-[2.5rem] shadow-2xl relative overflow-hidden group">
@@ -845,15 +1572,30 @@ export default function App() {
                 <Bars3Icon className="w-6 h-6" />
              </button>
              <div className="hidden sm:block">
-                <h2 className="font-brand font-black text-2xl sm:text-3xl tracking-tight leading-none">
-                  {isSelectionMode ? `${selectedIds.size} Selected` : 'infinity'}
+                <h2 className="font-brand font-black text-2xl sm:text-3xl tracking-tight leading-none truncate max-w-[16rem]">
+                  {isSelectionMode ? `${selectedIds.size} Selected` : showTrash ? 'Trash' : activeCollection ? activeCollection.name : currentFolder && currentFolder !== rootFolder ? currentFolder.name : 'infinity'}
                 </h2>
-                <div className="flex items-center gap-1.5">
-                   <p className="text-[8px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-widest">
-                     {isSelectionMode ? 'Batch Actions' : 'secure vault'}
-                   </p>
-                   {!isSelectionMode && <CheckBadgeIcon className="w-3 h-3 text-emerald-500" />}
-                </div>
+                {!isSelectionMode && showTrash ? (
+                  <p className="text-[8px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-widest">Deleted after {trashRetention} days</p>
+                ) : !isSelectionMode && activeCollection ? (
+                  <p className="text-[8px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate max-w-[20rem]">{describeRules(activeCollection.rules)}</p>
+                ) : !isSelectionMode && breadcrumbs.length > 0 ? (
+                  <nav className="flex items-center gap-1 text-[8px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-widest max-w-[20rem] overflow-hidden">
+                    {breadcrumbs.map((folder, i) => (
+                      <React.Fragment key={folder.id}>
+                        {i > 0 && <ChevronRightIcon className="w-3 h-3 flex-shrink-0" />}
+                        <button onClick={() => openFolder(folder.id)} className={`truncate hover:text-indigo-600 transition-colors ${i === breadcrumbs.length - 1 ? 'text-slate-600' : ''}`}>{folder.name}</button>
+                      </React.Fragment>
+                    ))}
+                  </nav>
+                ) : (
+                  <div className="flex items-center gap-1.5">
+                     <p className="text-[8px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                       {isSelectionMode ? 'Batch Actions' : 'secure vault'}
+                     </p>
+                     {!isSelectionMode && <CheckBadgeIcon className="w-3 h-3 text-emerald-500" />}
+                  </div>
+                )}
              </div>
           </div>
 
@@ -871,6 +1613,18 @@ export default function App() {
           </div>
 
           <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
+            {backgroundTask && !isProcessing && (
+              <div className="hidden lg:flex items-center gap-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{backgroundTask}</span>
+                <KeyIcon className="w-5 h-5 text-slate-400 animate-pulse" />
+              </div>
+            )}
+            {loadStatus && !isProcessing && (
+              <div className="hidden lg:flex items-center gap-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{loadStatus}</span>
+                <ArrowPathIcon className="w-5 h-5 text-slate-400 animate-spin" />
+              </div>
+            )}
             {isProcessing && (
               <div className="flex items-center gap-2">
                 <span className="hidden lg:inline text-[9px] font-black uppercase tracking-widest text-indigo-600 animate-pulse">{processingStatus}</span>
@@ -894,13 +1648,14 @@ export default function App() {
                   <button onClick={() => setViewMode('list')} className={`p-1.5 sm:p-2 rounded-lg sm:rounded-xl transition-all ${viewMode === 'list' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}><ListBulletIcon className="w-4 h-4 sm:w-5 sm:h-5" /></button>
                 </div>
                 <button onClick={() => setIsSelectionMode(true)} title="Select Mode" className="p-2 sm:p-3 bg-slate-100 rounded-xl sm:rounded-2xl transition-all hover:bg-slate-200 active:scale-95"><CheckIcon className="w-5 h-5 sm:w-6 sm:h-6 text-slate-600" /></button>
+                <button onClick={() => setNoteEditor('new')} title="New Note" className="p-2 sm:p-3 bg-slate-100 rounded-xl sm:rounded-2xl transition-all hover:bg-slate-200 active:scale-95"><DocumentPlusIcon className="w-5 h-5 sm:w-6 sm:h-6 text-slate-600" /></button>
                 <button onClick={startCamera} title="Camera Snap" className="p-2 sm:p-3 bg-slate-100 rounded-xl sm:rounded-2xl transition-all hover:bg-slate-200 active:scale-95"><CameraIcon className="w-5 h-5 sm:w-6 sm:h-6 text-slate-600" /></button>
                 <label title="Upload Files" className="bg-indigo-600 text-white font-black p-2 sm:px-6 sm:py-4 rounded-xl sm:rounded-2xl cursor-pointer shadow-xl shadow-indigo-600/20 flex items-center gap-2 sm:gap-3 text-xs sm:text-sm hover:bg-indigo-700 transition-all active:scale-95">
                   <CloudArrowUpIcon className="w-5 h-5 sm:w-6 sm:h-6" /> <span className="hidden md:inline">Add</span>
                   <input 
                     type="file" 
                     multiple 
-                    onClick={() => setIsPickingFile(true)}
+                    onClick={startPicking}
                     onChange={handleFileUpload} 
                     className="hidden" 
                   />
@@ -910,9 +1665,22 @@ export default function App() {
           </div>
         </header>
 
-        <div className="flex-1 overflow-y-auto p-3 sm:p-12 scrollbar-hide pb-32 md:pb-12">
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 sm:p-12 scrollbar-hide pb-32 md:pb-12">
+          {showTrash && (
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6 sm:mb-10 p-4 sm:p-5 bg-white border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem] shadow-sm">
+              <div className="flex items-center gap-3">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Keep deleted items for</span>
+                <select value={trashRetention} onChange={(e) => handleRetentionChange(Number(e.target.value)).catch(err => console.error("Retention update failed", err))} className="bg-slate-100 border-none rounded-xl py-2 px-3 text-xs font-black outline-none focus:ring-2 focus:ring-indigo-500">
+                  {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>)}
+                </select>
+              </div>
+              <button onClick={handleEmptyTrash} disabled={trashedFiles.length === 0 || isProcessing} className="flex items-center gap-2 px-4 py-2.5 bg-rose-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">
+                <TrashIcon className="w-4 h-4" /> Empty Trash
+              </button>
+            </div>
+          )}
           <AnimatePresence mode="wait">
-            {filteredAndSortedFiles.length === 0 ? (
+            {filteredAndSortedFiles.length === 0 && subfolders.length === 0 ? (
               <motion.div 
                 key="empty"
                 initial={{ opacity: 0, scale: 0.9 }}
@@ -923,7 +1691,7 @@ export default function App() {
                 <div className="p-8 sm:p-10 bg-white rounded-[3rem] sm:rounded-[4rem] border border-slate-100 shadow-sm flex flex-col items-center max-w-xs text-center">
                    <InfinityLogo className="w-16 h-16 sm:w-24 sm:h-24 mb-6 opacity-10" />
                    <p className="font-brand font-black uppercase tracking-widest text-[12px] sm:text-[14px] opacity-40 leading-relaxed text-center">
-                      {searchQuery ? 'No results found.' : 'Your secure safe is empty.'}
+                      {hasMoreFiles ? 'Loading...' : searchQuery ? 'No results found.' : showTrash ? 'Trash is empty.' : activeCollection ? 'Nothing matches yet.' : currentFolderId ? 'This folder is empty.' : 'Your secure safe is empty.'}
                    </p>
                 </div>
               </motion.div>
@@ -932,37 +1700,51 @@ export default function App() {
                 key={viewMode}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
-                className="space-y-12"
               >
-                {Object.entries(groupedFiles).map(([label, groupFiles]) => (
-                  <div key={label} className="space-y-6">
-                    <div className="flex items-center gap-4">
-                      <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 whitespace-nowrap">{label}</h3>
-                      <div className="h-px w-full bg-slate-200/60" />
-                    </div>
-                    <div className={viewMode === 'grid' 
-                      ? "grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-6" 
-                      : "flex flex-col gap-2"
-                    }>
-                      {(groupFiles as StoredFile[]).map(file => (
-                        <FileCard 
-                          key={file.id} 
-                          file={file} 
-                          vaultPin={vaultPin} 
-                          onDelete={() => setFileToDelete(file.id)} 
-                          onDownload={() => handleDownload(file)} 
-                          onPreview={() => setPreviewFile(file)} 
-                          onRename={() => setFileToRename(file)}
-                          isProcessing={isProcessing} 
-                          isSelected={selectedIds.has(file.id)}
-                          isSelectionMode={isSelectionMode}
-                          onSelect={() => toggleSelection(file.id)}
-                          viewMode={viewMode}
-                        />
-                      ))}
-                    </div>
+                {subfolders.length > 0 && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 2xl:grid-cols-5 gap-3 sm:gap-6 mb-8 sm:mb-12">
+                    {subfolders.map(folder => (
+                      <FolderTile
+                        key={folder.id}
+                        folder={folder}
+                        itemCount={liveFiles.filter(f => f.folderId === folder.id).length + folders.filter(f => f.parentId === folder.id).length}
+                        onOpen={() => openFolder(folder.id)}
+                        onRename={() => setFolderDraft({ folder })}
+                        onMove={() => setFolderToMove(folder)}
+                        onDelete={() => handleDeleteFolder(folder)}
+                      />
+                    ))}
                   </div>
-                ))}
+                )}
+                <VirtualFileList
+                  groups={groupedFiles}
+                  viewMode={viewMode}
+                  scrollRef={scrollRef}
+                  onReachEnd={hasMoreFiles ? loadMoreListed : undefined}
+                  renderFile={(file: StoredFile) => (
+                    <FileCard 
+                      key={file.id} 
+                      file={file} 
+                      vaultKeys={vaultKeys} 
+                      thumbnailVersion={thumbnailVersion}
+                      onDelete={() => setFileToDelete(file.id)} 
+                      onDownload={() => handleDownload(file)} 
+                      onPreview={() => openFile(file)} 
+                      onRename={() => setFileToRename(file)}
+                      onToggleFavorite={() => handleToggleFavorite(file)}
+                      onEditTags={() => setTagTargets([file])}
+                      onOpenTag={(tag: string) => openCollection(tagView(tag))}
+                      onPutBack={showTrash ? () => handlePutBack([file.id]) : undefined}
+                      expiresAt={showTrash ? trashExpiresAt(file, trashRetention) : undefined}
+                      snippet={contentMatches.get(file.id)}
+                      isProcessing={isProcessing} 
+                      isSelected={selectedIds.has(file.id)}
+                      isSelectionMode={isSelectionMode}
+                      onSelect={() => toggleSelection(file.id)}
+                      viewMode={viewMode}
+                    />
+                  )}
+                />
               </motion.div>
             )}
           </AnimatePresence>
@@ -981,14 +1763,34 @@ export default function App() {
                 <span className="text-xl font-black font-brand">{selectedIds.size} Items</span>
               </div>
               <div className="h-8 w-px bg-white/10 mx-2" />
+              {showTrash ? (
               <div className="flex items-center gap-3">
+                <button onClick={() => handlePutBack([...selectedIds])} title="Put Back" className="p-3 bg-indigo-600 rounded-2xl hover:bg-indigo-700 transition-all active:scale-95 shadow-lg shadow-indigo-600/20">
+                  <ArrowUturnLeftIcon className="w-6 h-6" />
+                </button>
+                <button onClick={handleBatchDelete} title="Delete Forever" className="p-3 bg-rose-600 rounded-2xl hover:bg-rose-700 transition-all active:scale-95 shadow-lg shadow-rose-600/20">
+                  <TrashIcon className="w-6 h-6" />
+                </button>
+              </div>
+              ) : (
+              <div className="flex items-center gap-3">
+                <button onClick={() => setShowMoveFiles(true)} title="Move to…" className="p-3 bg-indigo-600 rounded-2xl hover:bg-indigo-700 transition-all active:scale-95 shadow-lg shadow-indigo-600/20">
+                  <FolderArrowDownIcon className="w-6 h-6" />
+                </button>
+                <button onClick={() => setTagTargets(files.filter(f => selectedIds.has(f.id)))} title="Tags" className="p-3 bg-slate-700 rounded-2xl hover:bg-slate-600 transition-all active:scale-95">
+                  <TagIcon className="w-6 h-6" />
+                </button>
+                <button onClick={handleBatchFavorite} title="Favorite" className="p-3 bg-amber-500 rounded-2xl hover:bg-amber-600 transition-all active:scale-95 shadow-lg shadow-amber-500/20">
+                  <StarIcon className="w-6 h-6" />
+                </button>
                 <button onClick={handleBatchDownload} className="p-3 bg-emerald-600 rounded-2xl hover:bg-emerald-700 transition-all active:scale-95 shadow-lg shadow-emerald-600/20">
                   <ArrowDownTrayIcon className="w-6 h-6" />
                 </button>
-                <button onClick={handleBatchDelete} className="p-3 bg-rose-600 rounded-2xl hover:bg-rose-700 transition-all active:scale-95 shadow-lg shadow-rose-600/20">
+                <button onClick={handleBatchDelete} title="Move to Trash" className="p-3 bg-rose-600 rounded-2xl hover:bg-rose-700 transition-all active:scale-95 shadow-lg shadow-rose-600/20">
                   <TrashIcon className="w-6 h-6" />
                 </button>
               </div>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -1015,11 +1817,21 @@ export default function App() {
 
       {showInfo && <InfoModal stats={stats} onClose={() => setShowInfo(false)} />}
       {showHelp && <HelpModal onClose={() => setShowHelp(false)} />}
-      {showMaintenance && <MaintenanceModal files={files} handleDownloadAll={handleDownloadAll} handleInstallApp={handleInstallApp} handleExport={handleExport} handleImport={handleImport} deleteVaultProfile={deleteVaultProfile} activeProfile={activeProfile} handleLockVault={handleLockVault} onClose={() => setShowMaintenance(false)} isProcessing={isProcessing} setIsProcessing={setIsProcessing} isPersistent={isPersistent} />}
-      {previewFile && <PreviewModal file={previewFile} vaultPin={vaultPin} onClose={() => setPreviewFile(null)} onDownload={() => handleDownload(previewFile)} />}
+      {showMaintenance && <MaintenanceModal files={liveFiles} handleDownloadAll={handleDownloadAll} handleInstallApp={handleInstallApp} handleExport={handleExport} handleImport={handleImport} deleteVaultProfile={deleteVaultProfile} activeProfile={activeProfile} handleLockVault={handleLockVault} onChangePin={() => setShowChangePin(true)} onClose={() => setShowMaintenance(false)} isProcessing={isProcessing} setIsProcessing={setIsProcessing} isPersistent={isPersistent} vaultKeys={vaultKeys} isBusy={!!backgroundTask || uploads.some(u => ['queued', 'uploading', 'retrying'].includes(u.status))} onFilesRemoved={(ids: string[]) => { setFiles(prev => prev.filter(f => !ids.includes(f.id))); updateQuota(); }} onThumbnailsRebuilt={() => setThumbnailVersion(v => v + 1)} versionPolicy={versionPolicy} onVersionPolicyChange={handleVersionPolicyChange} lockPolicy={lockPolicy} onLockPolicyChange={handleLockPolicyChange} onWipeAfterChange={handleWipeAfterChange} onFindDuplicates={() => { setShowMaintenance(false); setShowDuplicates(true); }} />}
+
+      {showDuplicates && <DuplicatesModal files={liveFiles} vaultKeys={vaultKeys} onClose={() => setShowDuplicates(false)} onFileHashed={(id: string, patch: Partial<StoredFile>) => setFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f))} onTrash={trashFiles} />}
+      {showChangePin && <ChangePinModal onClose={() => setShowChangePin(false)} onConfirm={handleChangePin} />}
+      {noteEditor && <NoteEditorModal note={noteEditor === 'new' ? null : noteEditor} vaultId={activeProfile.id} folderId={targetFolderId} vaultKeys={vaultKeys} onSaved={handleNoteSaved} onClose={() => setNoteEditor(null)} />}
+      {previewFile && <PreviewModal file={previewFile} files={previewList} onNavigate={setPreviewFile} vaultKeys={vaultKeys} versions={previewVersions} onClose={() => setPreviewFile(null)} onDownload={() => handleDownload(previewFile)} onDownloadVersion={(version: StoredFile) => handleDownload(version)} onRestoreVersion={handleRestoreVersion} onDeleteVersion={handleDeleteVersion} />}
+      {uploads.length > 0 && <UploadQueuePanel uploads={uploads} onPause={pauseUpload} onResume={resumeUpload} onRetry={retryUpload} onCancel={(id: string) => cancelUpload(id).catch(err => console.error("Cancel failed", err))} onClear={clearFinishedUploads} onKeep={keepDuplicate} onLink={linkDuplicate} onReselect={(list: File[]) => enqueueUploads(list, targetFolderId)} onPicking={startPicking} />}
       {showCamera && <CameraLens videoRef={videoRef} onCapture={capturePhoto} isProcessing={isProcessing} onClose={stopCamera} />}
-      {fileToDelete && <DeleteConfirmModal onClose={() => setFileToDelete(null)} onConfirm={confirmDeleteFile} />}
+      {fileToDelete && <DeleteConfirmModal permanent={showTrash} retentionDays={trashRetention} onClose={() => setFileToDelete(null)} onConfirm={confirmDeleteFile} />}
       {fileToRename && <RenameModal file={fileToRename} onClose={() => setFileToRename(null)} onConfirm={handleRename} />}
+      {tagTargets && <TagEditorModal files={tagTargets} allTags={allTags} onClose={() => setTagTargets(null)} onConfirm={handleApplyTags} isProcessing={isProcessing} />}
+      {collectionDraft && <CollectionModal collection={collectionDraft.collection} allTags={allTags} onClose={() => setCollectionDraft(null)} onConfirm={handleSaveCollection} onDelete={handleDeleteCollection} />}
+      {folderDraft && <FolderModal folder={folderDraft.folder} onClose={() => setFolderDraft(null)} onConfirm={handleSaveFolder} />}
+      {folderToMove && <FolderPickerModal title={`Move "${folderToMove.name}"`} folders={folders} rootFolder={rootFolder} isDisabled={(f: Folder) => isDescendant(folders, f.id, folderToMove.id) || f.id === folderToMove.parentId} onClose={() => setFolderToMove(null)} onMove={handleMoveFolder} isProcessing={isProcessing} />}
+      {showMoveFiles && <FolderPickerModal title={`Move ${selectedIds.size} Items`} folders={folders} rootFolder={rootFolder} initialId={currentFolderId} isDisabled={() => false} onClose={() => setShowMoveFiles(false)} onMove={handleMoveSelected} onCopy={handleCopySelected} isProcessing={isProcessing} />}
       {showInstallModal && <InstallInstructionModal isIOS={isIOS} onClose={() => setShowInstallModal(false)} />}
     </div>
   );
@@ -1040,42 +1852,169 @@ function CameraLens({ videoRef, onCapture, isProcessing, onClose }: any) {
   );
 }
 
-function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, isProcessing, isSelected, isSelectionMode, onSelect, viewMode }: any) {
+const GRID_BREAKPOINTS: [number, number][] = [[1536, 5], [1280, 4], [1024, 3]]; // Tailwind 2xl, xl, lg
+const LIST_OVERSCAN = 800; // Pixels rendered beyond each edge of the viewport
+
+// Windowed file list: date headers and rows of cards are positioned from their
+// measured heights (estimated until first shown) and only rows near the
+// viewport are mounted, so vaults with tens of thousands of items stay fast.
+function VirtualFileList({ groups, viewMode, scrollRef, renderFile, onReachEnd }: any) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight, width: window.innerWidth, listWidth: 0 });
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const update = () => {
+      const list = listRef.current;
+      if (!list) return;
+      setViewport({
+        top: container.getBoundingClientRect().top - list.getBoundingClientRect().top,
+        height: container.clientHeight,
+        width: window.innerWidth,
+        listWidth: list.clientWidth
+      });
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      container.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [scrollRef]);
+
+  const columns = viewMode === 'grid' ? (GRID_BREAKPOINTS.find(([min]) => viewport.width >= min)?.[1] ?? 2) : 1;
+
+  const rows = useMemo(() => {
+    const result: { key: string, label?: string, files?: StoredFile[] }[] = [];
+    for (const [label, files] of Object.entries(groups) as [string, StoredFile[]][]) {
+      result.push({ key: `${viewMode}:${columns}:h:${label}`, label });
+      for (let i = 0; i < files.length; i += columns) {
+        result.push({ key: `${viewMode}:${columns}:${files[i].id}`, files: files.slice(i, i + columns) });
+      }
+    }
+    return result;
+  }, [groups, viewMode, columns]);
+
+  const estimate = (row: { label?: string }) => {
+    if (row.label) return 72;
+    return viewMode === 'grid' ? viewport.listWidth / columns + 100 : 80;
+  };
+
+  const offsets: number[] = [];
+  let total = 0;
+  for (const row of rows) {
+    offsets.push(total);
+    total += heights.current.get(row.key) ?? estimate(row);
+  }
+
+  const from = viewport.top - LIST_OVERSCAN;
+  const to = viewport.top + viewport.height + LIST_OVERSCAN;
+  let first = 0;
+  let last = offsets.length;
+  while (first < last) {
+    const mid = (first + last) >> 1;
+    if (offsets[mid] + (heights.current.get(rows[mid].key) ?? estimate(rows[mid])) < from) first = mid + 1;
+    else last = mid;
+  }
+  const visible: number[] = [];
+  for (let i = first; i < rows.length && offsets[i] < to; i++) visible.push(i);
+
+  // Asked again after every render while the end is in range, until there's no more
+  const atEnd = to >= total;
+  useEffect(() => {
+    if (atEnd) onReachEnd?.();
+  }, [atEnd, total, onReachEnd]);
+
+  const onMeasure = (key: string, height: number) => {
+    if (heights.current.get(key) === height) return;
+    heights.current.set(key, height);
+    setMeasured(n => n + 1);
+  };
+
+  return (
+    <div ref={listRef} className="relative" style={{ height: total }}>
+      {visible.map(i => {
+        const row = rows[i];
+        return (
+          <MeasuredRow key={row.key} rowKey={row.key} top={offsets[i]} onMeasure={onMeasure}>
+            {row.label ? (
+              <div className={`flex items-center gap-4 pb-6 ${i === 0 ? '' : 'pt-12'}`}>
+                <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-400 whitespace-nowrap">{row.label}</h3>
+                <div className="h-px w-full bg-slate-200/60" />
+              </div>
+            ) : viewMode === 'grid' ? (
+              <div className="grid gap-3 sm:gap-6 pb-3 sm:pb-6" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+                {row.files!.map(renderFile)}
+              </div>
+            ) : (
+              <div className="pb-2">{row.files!.map(renderFile)}</div>
+            )}
+          </MeasuredRow>
+        );
+      })}
+    </div>
+  );
+}
+
+function MeasuredRow({ rowKey, top, onMeasure, children }: any) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const row = ref.current;
+    if (!row) return;
+    const observer = new ResizeObserver(() => onMeasure(rowKey, row.offsetHeight));
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [rowKey]);
+
+  return <div ref={ref} className="absolute inset-x-0" style={{ top }}>{children}</div>;
+}
+
+function FileCard({ file, vaultKeys, thumbnailVersion, onDelete, onDownload, onPreview, onRename, onToggleFavorite, onEditTags, onOpenTag, onPutBack, expiresAt, snippet, isProcessing, isSelected, isSelectionMode, onSelect, viewMode }: any) {
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Thumbnails load once the card is first on screen; cards only passing
+  // through during a fast scroll unmount, and abort, before their turn.
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card || isVisible) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true);
+    }, { rootMargin: '100px' });
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, [isVisible, viewMode]);
 
   useEffect(() => {
+    if (!isVisible) return;
     let url: string | null = null;
+    const controller = new AbortController();
     const loadThumbnail = async () => {
       try {
-        if (file.type === 'image') {
-          let blob: Blob;
-          if (file.isChunked && file.chunkIds && file.chunkIvs) {
-            // For thumbnails, we only decrypt the first chunk to save memory/time
-            // This works for most image formats (JPEG/PNG) to show a partial preview
-            // or we can decrypt all if it's not too many. Let's do all for quality.
-            const chunks: ArrayBuffer[] = [];
-            for (let i = 0; i < file.chunkIds.length; i++) {
-              const encryptedChunk = await getChunk(file.chunkIds[i]);
-              const decryptedChunk = await decryptChunk(encryptedChunk, vaultPin, file.chunkIvs[i], file.salt);
-              chunks.push(decryptedChunk);
-            }
-            blob = new Blob(chunks, { type: file.mimeType });
-          } else {
-            const decrypted = await decryptFile(file.encryptedData!, vaultPin, file.iv, file.salt, file.isCompressed);
-            blob = new Blob([decrypted], { type: file.mimeType });
-          }
-          url = URL.createObjectURL(blob);
-          setThumbnailUrl(url);
+        url = await loadThumbnailUrl(file, vaultKeys, controller.signal);
+        if (controller.signal.aborted) {
+          if (url) revokeObjectUrl(url);
+          return;
         }
+        setThumbnailUrl(url);
       } catch (err) {
-        console.error("Thumbnail load failed", err);
+        if (!controller.signal.aborted) console.error("Thumbnail load failed", err);
       }
     };
     loadThumbnail();
-    return () => { if (url) URL.revokeObjectURL(url); };
-  }, [file.id, vaultPin]);
+    return () => {
+      controller.abort();
+      if (url) revokeObjectUrl(url);
+    };
+  }, [file.id, vaultKeys, thumbnailVersion, isVisible]);
 
   const handleCopyName = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -1084,58 +2023,91 @@ function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, i
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Trashed files can only be put back or deleted for good
+  const inTrash = !!onPutBack;
+  const daysLeft = inTrash ? Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000))) : 0;
+  const trashNote = inTrash && (
+    <span className="text-[8px] sm:text-[9px] font-black text-rose-500 uppercase tracking-widest">{daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}</span>
+  );
+
+  const tagChips = file.tags?.length > 0 && (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {file.tags.slice(0, 3).map((tag: string) => <TagChip key={tag} tag={tag} small onClick={(e: React.MouseEvent) => { e.stopPropagation(); onOpenTag(tag); }} />)}
+      {file.tags.length > 3 && <span className="text-[8px] sm:text-[9px] font-black text-slate-400">+{file.tags.length - 3}</span>}
+    </div>
+  );
+
+  const snippetLine = snippet && (snippet.match || snippet.after) && (
+    <p className="text-[9px] sm:text-[10px] font-medium text-slate-500 leading-snug line-clamp-2 break-words mb-1">
+      {snippet.before}{snippet.match && <mark className="bg-amber-100 text-slate-800 font-bold rounded px-0.5">{snippet.match}</mark>}{snippet.after}
+    </p>
+  );
+
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(timestamp));
   };
 
   if (viewMode === 'list') {
     return (
-      <motion.div 
-        layout
-        initial={{ opacity: 0, x: -10 }}
-        animate={{ opacity: 1, x: 0 }}
+      <div 
+        ref={cardRef}
         onClick={() => isSelectionMode ? onSelect() : onPreview()}
         className={`group flex items-center gap-4 p-3 bg-white rounded-2xl border-2 transition-all cursor-pointer relative ${isSelected ? 'border-indigo-600 bg-indigo-50/30' : 'border-slate-100 hover:border-slate-200'} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
       >
         <div className="w-12 h-12 rounded-xl bg-slate-100 flex-shrink-0 overflow-hidden flex items-center justify-center">
-          {file.type === 'image' && thumbnailUrl ? (
+          {thumbnailUrl ? (
             <img src={thumbnailUrl} alt={file.name} className="w-full h-full object-cover" />
+          ) : file.type === 'note' ? (
+            <DocumentTextIcon className="w-6 h-6 text-amber-400" />
+          ) : file.type === 'audio' ? (
+            <MusicalNoteIcon className="w-6 h-6 text-indigo-300" />
           ) : (
             <DocumentIcon className="w-6 h-6 text-slate-300" />
           )}
         </div>
         <div className="flex-1 min-w-0">
-          <h3 className="text-xs font-black text-slate-800 truncate">{file.name}</h3>
+          <h3 className="text-xs font-black text-slate-800 truncate flex items-center gap-1.5">
+            {file.isFavorite && <StarIcon className="w-3.5 h-3.5 flex-shrink-0 fill-amber-400 text-amber-400" />}
+            <span className="truncate">{file.name}</span>
+          </h3>
+          {snippetLine}
           <div className="flex items-center gap-3 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
             <span>{file.type}</span>
             <span>{formatSize(file.size)}</span>
+            {trashNote}
           </div>
+          {tagChips}
         </div>
         <div className="flex items-center gap-2">
           {isSelectionMode ? (
             <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300'}`}>
               {isSelected && <CheckIcon className="w-4 h-4 stroke-[4]" />}
             </div>
+          ) : inTrash ? (
+            <div className="flex items-center gap-1">
+              <button onClick={(e) => { e.stopPropagation(); onPutBack(); }} title="Put Back" className="p-2 bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100 active:scale-90 transition-all"><ArrowUturnLeftIcon className="w-4 h-4" /></button>
+              <button onClick={(e) => { e.stopPropagation(); onDelete(); }} title="Delete Forever" className="p-2 bg-rose-50 text-rose-500 rounded-lg hover:bg-rose-100 active:scale-90 transition-all"><TrashIcon className="w-4 h-4" /></button>
+            </div>
           ) : (
             <div className="flex items-center gap-1">
               <button onClick={handleCopyName} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all">
                 {copied ? <CheckIcon className="w-4 h-4 text-emerald-500" /> : <ClipboardIcon className="w-4 h-4" />}
               </button>
+              <button onClick={(e) => { e.stopPropagation(); onToggleFavorite(); }} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all"><StarIcon className={`w-4 h-4 ${file.isFavorite ? 'fill-amber-400 text-amber-400' : ''}`} /></button>
+              <button onClick={(e) => { e.stopPropagation(); onEditTags(); }} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all"><TagIcon className="w-4 h-4" /></button>
               <button onClick={(e) => { e.stopPropagation(); onRename(); }} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all"><PencilSquareIcon className="w-4 h-4" /></button>
               <button onClick={(e) => { e.stopPropagation(); onDownload(); }} className="p-2 bg-emerald-50 text-emerald-600 rounded-lg hover:bg-emerald-100 active:scale-90 transition-all"><ArrowDownTrayIcon className="w-4 h-4" /></button>
               <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-2 bg-rose-50 text-rose-500 rounded-lg hover:bg-rose-100 active:scale-90 transition-all"><TrashIcon className="w-4 h-4" /></button>
             </div>
           )}
         </div>
-      </motion.div>
+      </div>
     );
   }
 
   return (
     <motion.div 
-      layout
-      initial={{ opacity: 0, scale: 0.9 }}
-      animate={{ opacity: 1, scale: 1 }}
+      ref={cardRef}
       whileHover={{ y: isSelectionMode ? 0 : -5 }}
       onClick={() => isSelectionMode ? onSelect() : onPreview()}
       className={`group bg-white rounded-[1.8rem] sm:rounded-[2.5rem] border-2 overflow-hidden shadow-sm hover:shadow-xl transition-all duration-500 flex flex-col cursor-pointer relative ${isSelected ? 'border-indigo-600 ring-4 ring-indigo-600/10' : 'border-slate-200'} ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}
@@ -1146,6 +2118,19 @@ function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, i
         </div>
       )}
 
+      {!isSelectionMode && !inTrash && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleFavorite(); }}
+          title={file.isFavorite ? 'Remove from Favorites' : 'Add to Favorites'}
+          className={`absolute top-3 left-3 z-20 p-2 bg-white/80 backdrop-blur-md rounded-xl shadow-sm active:scale-90 transition-all ${file.isFavorite ? '' : 'lg:opacity-0 lg:group-hover:opacity-100'}`}
+        >
+          <StarIcon className={`w-4 h-4 ${file.isFavorite ? 'fill-amber-400 text-amber-400' : 'text-slate-600'}`} />
+        </button>
+      )}
+      {isSelectionMode && file.isFavorite && (
+        <StarIcon className="absolute top-4 left-4 z-20 w-5 h-5 fill-amber-400 text-amber-400 drop-shadow" />
+      )}
+
       {!isSelectionMode && (
         <button 
           onClick={(e) => { e.stopPropagation(); setShowMobileMenu(!showMobileMenu); }}
@@ -1165,35 +2150,64 @@ function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, i
             onClick={(e) => e.stopPropagation()}
           >
             <MobileMenuBtn icon={<ArrowsPointingOutIcon />} label="View" onClick={() => { onPreview(); setShowMobileMenu(false); }} />
+            {inTrash ? (
+              <>
+                <MobileMenuBtn icon={<ArrowUturnLeftIcon />} label="Put Back" color="text-indigo-600" onClick={() => { onPutBack(); setShowMobileMenu(false); }} />
+                <MobileMenuBtn icon={<TrashIcon />} label="Delete Forever" color="text-rose-600" onClick={() => { onDelete(); setShowMobileMenu(false); }} />
+              </>
+            ) : (
+            <>
             <MobileMenuBtn icon={<ClipboardIcon />} label="Copy Name" onClick={(e: any) => { handleCopyName(e); setShowMobileMenu(false); }} />
             <MobileMenuBtn icon={<PencilSquareIcon />} label="Rename" onClick={() => { onRename(); setShowMobileMenu(false); }} />
+            <MobileMenuBtn icon={<TagIcon />} label="Tags" onClick={() => { onEditTags(); setShowMobileMenu(false); }} />
             <MobileMenuBtn icon={<ArrowDownTrayIcon />} label="Restore" color="text-emerald-600" onClick={() => { onDownload(); setShowMobileMenu(false); }} />
             <MobileMenuBtn icon={<TrashIcon />} label="Delete" color="text-rose-600" onClick={() => { onDelete(); setShowMobileMenu(false); }} />
+            </>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
       
       <div className="aspect-square bg-slate-100 relative flex items-center justify-center overflow-hidden group/card">
-        {file.type === 'image' && thumbnailUrl ? (
-          <img src={thumbnailUrl} alt={file.name} className="w-full h-full object-cover transition-transform duration-1000 lg:group-hover/card:scale-110" />
+        {thumbnailUrl ? (
+          <>
+            <img src={thumbnailUrl} alt={file.name} className="w-full h-full object-cover transition-transform duration-1000 lg:group-hover/card:scale-110" />
+            {file.type === 'video' && <PlayIcon className="w-6 h-6 sm:w-10 sm:h-10 text-white absolute fill-indigo-600 drop-shadow-xl" />}
+          </>
         ) : file.type === 'video' ? (
           <div className="relative w-full h-full flex items-center justify-center bg-indigo-50">
              <VideoCameraIcon className="w-8 h-8 sm:w-12 sm:h-12 text-indigo-200" />
              <PlayIcon className="w-6 h-6 sm:w-10 sm:h-10 text-white absolute fill-indigo-600 drop-shadow-xl" />
           </div>
+        ) : file.type === 'note' ? (
+          <div className="bg-amber-50 w-full h-full flex items-center justify-center text-amber-300">
+             <DocumentTextIcon className="w-8 h-8 sm:w-12 sm:h-12" />
+          </div>
+        ) : file.type === 'audio' ? (
+          <div className="bg-indigo-50 w-full h-full flex items-center justify-center text-indigo-200">
+             <MusicalNoteIcon className="w-8 h-8 sm:w-12 sm:h-12" />
+          </div>
         ) : (
           <div className="bg-slate-50 w-full h-full flex items-center justify-center text-slate-300">
              <DocumentIcon className="w-8 h-8 sm:w-12 sm:h-12" />
           </div>
         )}
         
-        {!isSelectionMode && (
+        {!isSelectionMode && inTrash && (
+          <div className="absolute inset-0 bg-slate-950/70 opacity-0 lg:group-hover/card:opacity-100 transition-opacity hidden lg:flex items-center justify-center gap-2 backdrop-blur-sm pointer-events-auto">
+            <button onClick={(e) => { e.stopPropagation(); onPreview(); }} className="p-2.5 bg-white rounded-xl text-slate-900 hover:scale-110 active:scale-95 transition-transform"><ArrowsPointingOutIcon className="w-4 h-4" /></button>
+            <button onClick={(e) => { e.stopPropagation(); onPutBack(); }} title="Put Back" className="p-2.5 bg-indigo-500 rounded-xl text-white hover:scale-110 active:scale-95 transition-transform"><ArrowUturnLeftIcon className="w-4 h-4" /></button>
+            <button onClick={(e) => { e.stopPropagation(); onDelete(); }} title="Delete Forever" className="p-2.5 bg-rose-500 rounded-xl text-white hover:scale-110 active:scale-95 transition-transform"><TrashIcon className="w-4 h-4" /></button>
+          </div>
+        )}
+        {!isSelectionMode && !inTrash && (
           <div className="absolute inset-0 bg-slate-950/70 opacity-0 lg:group-hover/card:opacity-100 transition-opacity hidden lg:flex items-center justify-center gap-2 backdrop-blur-sm pointer-events-auto">
             <button onClick={(e) => { e.stopPropagation(); onPreview(); }} className="p-2.5 bg-white rounded-xl text-slate-900 hover:scale-110 active:scale-95 transition-transform"><ArrowsPointingOutIcon className="w-4 h-4" /></button>
             <button onClick={handleCopyName} className="p-2.5 bg-white rounded-xl text-slate-900 hover:scale-110 active:scale-95 transition-transform">
               {copied ? <CheckIcon className="w-4 h-4 text-emerald-500" /> : <ClipboardIcon className="w-4 h-4" />}
             </button>
             <button onClick={(e) => { e.stopPropagation(); onRename(); }} className="p-2.5 bg-white rounded-xl text-slate-900 hover:scale-110 active:scale-95 transition-transform"><PencilSquareIcon className="w-4 h-4" /></button>
+            <button onClick={(e) => { e.stopPropagation(); onEditTags(); }} className="p-2.5 bg-white rounded-xl text-slate-900 hover:scale-110 active:scale-95 transition-transform"><TagIcon className="w-4 h-4" /></button>
             <button onClick={(e) => { e.stopPropagation(); onDownload(); }} className="p-2.5 bg-emerald-500 rounded-xl text-white hover:scale-110 active:scale-95 transition-transform"><ArrowDownTrayIcon className="w-4 h-4" /></button>
             <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-2.5 bg-rose-500 rounded-xl text-white hover:scale-110 active:scale-95 transition-transform"><TrashIcon className="w-4 h-4" /></button>
           </div>
@@ -1201,12 +2215,15 @@ function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, i
       </div>
       <div className="p-3 sm:p-4 flex-1 flex flex-col">
         <h3 className="text-[10px] sm:text-xs font-black text-slate-800 truncate mb-1 lg:group-hover/card:text-indigo-600 transition-colors">{file.name}</h3>
+        {snippetLine}
         
         <div className="flex flex-col gap-0.5">
            <div className="flex justify-between items-center text-[7px] sm:text-[9px] text-slate-400 font-bold uppercase tracking-widest">
               <span>{file.type}</span>
               <span className="text-slate-500 line-through opacity-40 font-black">{formatSize(file.size)}</span>
            </div>
+           {trashNote}
+           {tagChips}
            <div className="flex justify-between items-center mt-0.5">
               <div className="flex items-center gap-0.5 sm:gap-1 text-[7px] sm:text-[9px] font-black text-emerald-600 uppercase tracking-tighter bg-emerald-50 px-1.5 py-0.5 rounded-full">
                  <BoltIcon className="w-2 sm:w-2.5 h-2 sm:h-2.5" />
@@ -1215,7 +2232,15 @@ function FileCard({ file, vaultPin, onDelete, onDownload, onPreview, onRename, i
            </div>
         </div>
 
-        {!isSelectionMode && (
+        {!isSelectionMode && inTrash && (
+          <div className="mt-3 flex items-center gap-1.5">
+              <button onClick={(e) => { e.stopPropagation(); onPutBack(); }} className="flex-1 flex items-center justify-center gap-1 px-2 py-2 bg-indigo-600 text-white rounded-lg sm:rounded-xl text-[8px] sm:text-[9px] font-black uppercase tracking-widest shadow-lg shadow-indigo-600/20 active:scale-95 transition-all hover:bg-indigo-700">
+                 <ArrowUturnLeftIcon className="w-3 h-3" /> <span className="hidden sm:inline">Put Back</span>
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="md:hidden p-2 bg-rose-50 text-rose-500 rounded-lg active:scale-95 transition-all"><TrashIcon className="w-3.5 h-3.5" /></button>
+          </div>
+        )}
+        {!isSelectionMode && !inTrash && (
           <div className="mt-3 flex items-center gap-1.5">
               <button onClick={(e) => { e.stopPropagation(); onDownload(); }} className="flex-1 flex items-center justify-center gap-1 px-2 py-2 bg-emerald-600 text-white rounded-lg sm:rounded-xl text-[8px] sm:text-[9px] font-black uppercase tracking-widest shadow-lg shadow-emerald-600/20 active:scale-95 transition-all hover:bg-emerald-700">
                  <ArrowDownTrayIcon className="w-3 h-3" /> <span className="hidden sm:inline">Restore</span>
@@ -1307,30 +2332,107 @@ function SidebarItem({ icon, label, active, onClick }: any) {
   );
 }
 
-function ModalWrapper({ children, onClose }: { children?: React.ReactNode, onClose: () => void }) {
-    return (
-        <motion.div 
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          exit={{ opacity: 0 }}
-          className="fixed inset-0 bg-slate-950/90 z-[500] flex items-center justify-center p-4 sm:p-6 backdrop-blur-xl"
+const folderIcon = (folder: Folder, open = false) => folder.kind === 'album' ? <RectangleStackIcon /> : open ? <FolderOpenIcon /> : <FolderIcon />;
+
+function FolderTree({ folders, folder, depth, currentFolderId, onOpen }: any) {
+  const children = getChildFolders(folders, folder.id);
+  const containsCurrent = currentFolderId && currentFolderId !== folder.id && isDescendant(folders, currentFolderId, folder.id);
+  const [expanded, setExpanded] = useState(depth === 0);
+  const isOpen = expanded || containsCurrent;
+  const active = currentFolderId === folder.id;
+
+  return (
+    <div>
+      <div
+        className={`flex items-center gap-2 pr-4 py-2.5 rounded-2xl text-[13px] font-bold transition-all cursor-pointer ${active ? 'bg-slate-900 text-white shadow-xl shadow-slate-900/10' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+        style={{ paddingLeft: `${1 + depth * 1}rem` }}
+        onClick={() => onOpen(folder.id)}
+      >
+        <button
+          onClick={(e) => { e.stopPropagation(); setExpanded(!isOpen); }}
+          className={`p-0.5 rounded ${children.length ? '' : 'invisible'}`}
         >
-            <motion.div 
-              initial={{ scale: 0.9, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.9, opacity: 0 }}
-              className="bg-white rounded-[2rem] sm:rounded-[3rem] w-full max-w-md p-6 sm:p-10 shadow-2xl relative text-slate-900 border-t-8 border-indigo-600 max-h-[90vh] overflow-y-auto"
-            >
-                <button onClick={onClose} className="absolute top-4 sm:top-6 right-4 sm:right-6 p-2 text-slate-400 hover:text-slate-900 transition-colors"><XMarkIcon className="w-6 h-6 sm:w-7 sm:h-7" /></button>
-                {children}
-            </motion.div>
-        </motion.div>
-    );
+          {isOpen ? <ChevronDownIcon className="w-3.5 h-3.5" /> : <ChevronRightIcon className="w-3.5 h-3.5" />}
+        </button>
+        {React.cloneElement(folderIcon(folder, active), { className: "w-5 h-5 flex-shrink-0" })}
+        <span className="tracking-tight truncate">{folder.name}</span>
+      </div>
+      {isOpen && children.map((child: Folder) => (
+        <FolderTree key={child.id} folders={folders} folder={child} depth={depth + 1} currentFolderId={currentFolderId} onOpen={onOpen} />
+      ))}
+    </div>
+  );
 }
 
-function InfoModal({ stats, onClose }: any) {
-    return (
-        <ModalWrapper onClose={onClose}>
+function FolderTile({ folder, itemCount, onOpen, onRename, onMove, onDelete }: any) {
+  return (
+    <div
+      onClick={onOpen}
+      className="group bg-white rounded-[1.5rem] sm:rounded-[2rem] border-2 border-slate-200 p-4 sm:p-5 shadow-sm hover:shadow-xl hover:border-indigo-200 transition-all cursor-pointer flex items-center gap-3"
+    >
+      <div className={`w-11 h-11 rounded-xl flex-shrink-0 flex items-center justify-center ${folder.kind === 'album' ? 'bg-rose-50 text-rose-500' : 'bg-indigo-50 text-indigo-600'}`}>
+        {React.cloneElement(folderIcon(folder), { className: "w-6 h-6" })}
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="text-xs sm:text-sm font-black text-slate-800 truncate">{folder.name}</h3>
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{folder.kind} · {itemCount} items</span>
+      </div>
+      <div className="flex items-center gap-1 lg:opacity-0 lg:group-hover:opacity-100 transition-opacity">
+        <button onClick={(e) => { e.stopPropagation(); onRename(); }} title="Rename" className="p-1.5 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all"><PencilSquareIcon className="w-4 h-4" /></button>
+        <button onClick={(e) => { e.stopPropagation(); onMove(); }} title="Move" className="p-1.5 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100 active:scale-90 transition-all"><FolderArrowDownIcon className="w-4 h-4" /></button>
+        <button onClick={(e) => { e.stopPropagation(); onDelete(); }} title="Delete" className="p-1.5 bg-rose-50 text-rose-500 rounded-lg hover:bg-rose-100 active:scale-90 transition-all"><TrashIcon className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+}
+
+function CollectionItem({ collection, active, onOpen, onEdit }: any) {
+  return (
+    <div className="group relative">
+      <SidebarItem icon={<SparklesIcon />} label={collection.name} active={active} onClick={onOpen} />
+      <button onClick={onEdit} title="Edit Collection" className={`absolute right-3 top-1/2 -translate-y-1/2 p-1.5 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity ${active ? 'text-slate-300 hover:text-white' : 'text-slate-400 hover:text-indigo-600'}`}>
+        <PencilSquareIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+function TagChip({ tag, active, small, onClick, onRemove, muted }: any) {
+  return (
+    <span
+      onClick={onClick}
+      className={`inline-flex items-center gap-1 rounded-full font-black tracking-tight transition-colors ${onClick ? 'cursor-pointer' : ''} ${small ? 'text-[8px] sm:text-[9px] px-1.5 py-0.5' : 'text-[11px] px-2.5 py-1'} ${active ? 'bg-slate-900 text-white' : muted ? 'bg-slate-100 text-slate-400' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+    >
+      #{tag}
+      {onRemove && <button type="button" onClick={(e) => { e.stopPropagation(); onRemove(); }} className="hover:text-rose-500"><XMarkIcon className="w-3 h-3" /></button>}
+    </span>
+  );
+}
+
+function ModalWrapper({ children, onClose }: { children?: React.ReactNode, onClose: () => void }) {
+    return (
+        <motion.div 
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-slate-950/90 z-[500] flex items-center justify-center p-4 sm:p-6 backdrop-blur-xl"
+        >
+            <motion.div 
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="bg-white rounded-[2rem] sm:rounded-[3rem] w-full max-w-md p-6 sm:p-10 shadow-2xl relative text-slate-900 border-t-8 border-indigo-600 max-h-[90vh] overflow-y-auto"
+            >
+                <button onClick={onClose} className="absolute top-4 sm:top-6 right-4 sm:right-6 p-2 text-slate-400 hover:text-slate-900 transition-colors"><XMarkIcon className="w-6 h-6 sm:w-7 sm:h-7" /></button>
+                {children}
+            </motion.div>
+        </motion.div>
+    );
+}
+
+function InfoModal({ stats, onClose }: any) {
+    return (
+        <ModalWrapper onClose={onClose}>
             <div className="text-center">
                 <div className="w-16 h-16 sm:w-20 sm:h-20 bg-emerald-50 rounded-3xl flex items-center justify-center mb-6 sm:mb-8 mx-auto"><CheckBadgeIcon className="w-8 h-8 sm:w-10 sm:h-10 text-emerald-600" /></div>
                 <h2 className="text-3xl sm:text-4xl font-brand font-black mb-4 sm:mb-6 tracking-tight text-center">vault stats</h2>
@@ -1343,13 +2445,24 @@ function InfoModal({ stats, onClose }: any) {
                         <BoltIcon className="w-3 h-3" />
                         {stats.savedPercent}% Efficiency
                       </div>
+                      {stats.deduplicated > 0 && (
+                        <p className="mt-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">{formatSize(stats.deduplicated)} from shared content</p>
+                      )}
                   </div>
 
-                  <div className="grid grid-cols-3 gap-3">
+                  <div className="grid grid-cols-4 gap-3">
                     <StatMini label="Images" count={stats.imageCount} />
                     <StatMini label="Videos" count={stats.videoCount} />
                     <StatMini label="Docs" count={stats.docCount} />
+                    <StatMini label="Notes" count={stats.noteCount} />
                   </div>
+
+                  {stats.historyCount > 0 && (
+                    <div className="flex items-center justify-between bg-slate-50 p-4 rounded-2xl border border-slate-100">
+                      <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Version History</p>
+                      <p className="text-xs font-black text-slate-900">{formatSize(stats.historySize)} · {stats.historyCount} older</p>
+                    </div>
+                  )}
                 </div>
 
                 <p className="text-[10px] text-slate-400 font-bold mb-8 leading-relaxed">
@@ -1371,7 +2484,7 @@ function StatMini({ label, count }: { label: string, count: number }) {
   );
 }
 
-function MaintenanceModal({ files, handleDownloadAll, handleInstallApp, handleExport, handleImport, deleteVaultProfile, activeProfile, handleLockVault, onClose, isProcessing, setIsProcessing, isPersistent }: any) {
+function MaintenanceModal({ files, handleDownloadAll, handleInstallApp, handleExport, handleImport, deleteVaultProfile, activeProfile, handleLockVault, onChangePin, onClose, isProcessing, setIsProcessing, isPersistent, vaultKeys, isBusy, onFilesRemoved, onThumbnailsRebuilt, versionPolicy, onVersionPolicyChange, lockPolicy, onLockPolicyChange, onWipeAfterChange, onFindDuplicates }: any) {
     const handleWipe = async () => {
         if(confirm('⚠️ Permanent wipe: proceed?')) {
             setIsProcessing(true);
@@ -1423,6 +2536,27 @@ function MaintenanceModal({ files, handleDownloadAll, handleInstallApp, handleEx
                         <ArrowDownTrayIcon className="w-5 h-5 sm:w-6 sm:h-6" />
                     </button>
 
+                    <button onClick={onChangePin} className="w-full flex items-center justify-between p-5 sm:p-6 bg-slate-100 rounded-[1.5rem] sm:rounded-[2rem] hover:bg-slate-200 transition-all text-slate-700 active:scale-95">
+                        <div className="flex items-center gap-3 sm:gap-5">
+                            <KeyIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+                            <p className="text-xs sm:text-sm font-black font-brand leading-none">Change PIN</p>
+                        </div>
+                    </button>
+
+                    <button onClick={onFindDuplicates} disabled={files.length === 0} className="w-full flex items-center justify-between p-5 sm:p-6 bg-slate-100 rounded-[1.5rem] sm:rounded-[2rem] hover:bg-slate-200 transition-all text-slate-700 active:scale-95 disabled:opacity-40">
+                        <div className="flex items-center gap-3 sm:gap-5">
+                            <DocumentDuplicateIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+                            <p className="text-xs sm:text-sm font-black font-brand leading-none">Find Duplicates</p>
+                        </div>
+                    </button>
+
+                    <VaultHealthPanel activeProfile={activeProfile} vaultKeys={vaultKeys} isBusy={isBusy} onFilesRemoved={onFilesRemoved} />
+                    <ThumbnailPanel files={files} activeProfile={activeProfile} vaultKeys={vaultKeys} isBusy={isBusy} onRebuilt={onThumbnailsRebuilt} />
+                    <SearchIndexPanel files={files} vaultKeys={vaultKeys} isBusy={isBusy} />
+                    <VersioningPanel policy={versionPolicy} onChange={onVersionPolicyChange} />
+                    <AutoLockPanel policy={lockPolicy} onChange={onLockPolicyChange} />
+                    <FailedPinPanel wipeAfter={activeProfile?.wipeAfterFailures} onChange={onWipeAfterChange} />
+
                     <div className="grid grid-cols-2 gap-3 sm:gap-4">
                         <button onClick={handleExport} className="flex flex-col items-center gap-2 p-4 sm:p-6 bg-slate-100 rounded-[1.5rem] sm:rounded-[2rem] hover:bg-slate-200 active:scale-95 transition-all">
                             <ArrowUpOnSquareIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
@@ -1445,38 +2579,295 @@ function MaintenanceModal({ files, handleDownloadAll, handleInstallApp, handleEx
     );
 }
 
-function PreviewModal({ file, vaultPin, onClose, onDownload }: any) {
+// Scans once when opened. Exact copies beyond the first are selected for removal;
+// look-alikes are left for the user to pick.
+function DuplicatesModal({ files, vaultKeys, onClose, onFileHashed, onTrash }: any) {
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [progress, setProgress] = useState('Preparing...');
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    findDuplicates(files, vaultKeys, {
+      signal: controller.signal,
+      onProgress: (done, total) => setProgress(done < total ? `Reading ${done + 1}/${total}` : 'Comparing...'),
+      onFile: onFileHashed
+    })
+      .then(found => {
+        setClusters(found);
+        setSelected(new Set(found.filter(c => c.kind === 'exact').flatMap(c => c.files.slice(1).map(f => f.id))));
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Duplicate scan failed", err);
+        setError('The scan could not be completed.');
+      });
+    return () => controller.abort();
+  }, []);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleTrash = async () => {
+    if (!confirm(`Move ${selected.size} items to Trash?`)) return;
+    setIsDeleting(true);
+    try {
+      const ids = [...selected];
+      await onTrash(ids);
+      setClusters(prev => prev!
+        .map(c => ({ ...c, files: c.files.filter(f => !selected.has(f.id)) }))
+        .filter(c => c.files.length > 1));
+      setSelected(new Set());
+    } catch (err) {
+      console.error(err);
+      alert('Could not move the selected items to Trash.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-900/90 backdrop-blur-xl z-[100] flex items-center justify-center p-4 sm:p-6"
+    >
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-[2rem] sm:rounded-[3rem] w-full max-w-4xl p-6 sm:p-10 shadow-2xl relative text-slate-900 max-h-[90vh] flex flex-col"
+      >
+        <button onClick={onClose} className="absolute top-4 sm:top-6 right-4 sm:right-6 p-2 text-slate-400 hover:text-slate-900"><XMarkIcon className="w-6 h-6 sm:w-7 sm:h-7" /></button>
+        <h2 className="text-3xl sm:text-4xl font-brand font-black mb-2 tracking-tight text-center">duplicates</h2>
+        <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 text-center mb-6">
+          {error || (clusters ? `${clusters.length} group${clusters.length === 1 ? '' : 's'} found` : progress)}
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-4 sm:space-y-6 min-h-0">
+          {!clusters && !error && (
+            <div className="flex justify-center py-12"><ArrowPathIcon className="w-10 h-10 text-indigo-600 animate-spin" /></div>
+          )}
+          {clusters?.length === 0 && (
+            <div className="text-center py-12">
+              <CheckBadgeIcon className="w-12 h-12 text-emerald-500 mx-auto mb-3" />
+              <p className="text-xs font-black text-slate-500">No duplicates in this vault.</p>
+            </div>
+          )}
+          {clusters?.map((cluster, i) => (
+            <div key={i} className="p-4 sm:p-5 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{cluster.kind === 'exact' ? 'Exact copies' : 'Look alike'} · {cluster.files.length} items</p>
+                <p className="text-[9px] font-black uppercase tracking-widest text-indigo-600">{formatSize(cluster.extraSize)} in extras</p>
+              </div>
+              <div className="flex gap-3 overflow-x-auto pb-1">
+                {cluster.files.map((file, j) => (
+                  <DuplicateTile key={file.id} file={file} vaultKeys={vaultKeys} isSuggested={j === 0} isSelected={selected.has(file.id)} onToggle={() => toggle(file.id)} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:gap-4 mt-6">
+          <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Close</button>
+          <button onClick={handleTrash} disabled={selected.size === 0 || isDeleting} className="bg-rose-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">
+            {isDeleting ? <ArrowPathIcon className="w-4 h-4 animate-spin mx-auto" /> : `Move ${selected.size} to Trash`}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+function DuplicateTile({ file, vaultKeys, isSuggested, isSelected, onToggle }: any) {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let url: string | null = null;
+    const controller = new AbortController();
+    loadThumbnailUrl(file, vaultKeys, controller.signal)
+      .then(loaded => {
+        url = loaded;
+        if (controller.signal.aborted) {
+          if (url) revokeObjectUrl(url);
+          return;
+        }
+        setThumbnailUrl(url);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Thumbnail load failed", err);
+      });
+    return () => {
+      controller.abort();
+      if (url) revokeObjectUrl(url);
+    };
+  }, [file.id, vaultKeys]);
+
+  return (
+    <button onClick={onToggle} className={`relative flex-shrink-0 w-36 sm:w-44 text-left bg-white rounded-2xl border-2 overflow-hidden transition-all active:scale-95 ${isSelected ? 'border-rose-500' : 'border-transparent'}`}>
+      <div className="aspect-square bg-slate-100 flex items-center justify-center">
+        {thumbnailUrl ? <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" /> : <DocumentIcon className="w-10 h-10 text-slate-300" />}
+      </div>
+      <div className="p-3">
+        <p className="text-[10px] font-black text-slate-800 truncate">{file.name}</p>
+        <p className="text-[8px] font-bold uppercase tracking-widest text-slate-400 mt-1">{formatSize(file.size)} · {new Date(file.createdAt).toLocaleDateString()}</p>
+      </div>
+      {isSuggested && <span className="absolute top-2 left-2 px-2 py-1 bg-emerald-500 text-white rounded-full text-[7px] font-black uppercase tracking-widest">Keep</span>}
+      <span className={`absolute top-2 right-2 w-6 h-6 rounded-full flex items-center justify-center ${isSelected ? 'bg-rose-500 text-white' : 'bg-white/80 text-slate-300'}`}>
+        {isSelected ? <TrashIcon className="w-3.5 h-3.5" /> : <CheckIcon className="w-3.5 h-3.5" />}
+      </span>
+    </button>
+  );
+}
+
+const SLIDESHOW_INTERVAL = 4000;
+const PREFETCH_AHEAD = 3;
+const PREFETCH_BEHIND = 1;
+const SWIPE_DISTANCE = 60;
+
+// Steps through `files` (the current listing) with the arrow keys, swipes or a
+// slideshow of its images. Neighbours are decrypted ahead within a memory budget,
+// which is released when the preview closes.
+function PreviewModal({ file, files = [], vaultKeys, versions = [], onNavigate, onClose, onDownload, onDownloadVersion, onRestoreVersion, onDeleteVersion }: any) {
   const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [blob, setBlob] = useState<Blob | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const swipeRef = useRef<{ x: number, y: number, multiTouch: boolean } | null>(null);
+
+  const index = files.findIndex((f: StoredFile) => f.id === file.id);
+  const previous = index > 0 ? files[index - 1] : null;
+  const next = index >= 0 && index < files.length - 1 ? files[index + 1] : null;
+  const images = useMemo(() => files.filter((f: StoredFile) => viewerFor(f) === 'image'), [files]);
+
+  useEffect(() => {
+    if (versions.length === 0) setShowHistory(false);
+  }, [versions.length]);
+
+  useEffect(() => () => clearPrefetched(), []);
+
+  useEffect(() => {
+    if (index < 0) return;
+    const ahead = files.slice(index + 1, index + 1 + PREFETCH_AHEAD);
+    const behind = files.slice(Math.max(0, index - PREFETCH_BEHIND), index).reverse();
+    // A slideshow only shows images, so it reads ahead the images that come next
+    const position = images.findIndex((f: StoredFile) => f.id === file.id);
+    const upcoming = isPlaying ? [...images.slice(position + 1), ...images].slice(0, PREFETCH_AHEAD) : [...ahead, ...behind];
+    prefetchFiles(file, upcoming.filter((f: StoredFile) => f.id !== file.id), vaultKeys);
+  }, [file.id, files, isPlaying]);
+
+  // The slideshow loops over the images, waiting for each to be shown
+  useEffect(() => {
+    if (!isPlaying || isDecrypting) return;
+    const position = images.findIndex((f: StoredFile) => f.id === file.id);
+    const upcoming = images[(position + 1) % images.length];
+    if (!upcoming || upcoming.id === file.id) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onNavigate(upcoming), SLIDESHOW_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [isPlaying, isDecrypting, file.id, images]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, video, audio')) return;
+      if (e.key === 'ArrowRight' && next) onNavigate(next);
+      else if (e.key === 'ArrowLeft' && previous) onNavigate(previous);
+      else if (e.key === 'Escape') onClose();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [next, previous, onNavigate, onClose]);
+
+  // Horizontal swipes step through the files, unless an image is zoomed in
+  const handleSwipeStart = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse') return;
+    if (swipeRef.current) swipeRef.current.multiTouch = true;
+    else swipeRef.current = { x: e.clientX, y: e.clientY, multiTouch: false };
+  };
+
+  const handleSwipeEnd = (e: React.PointerEvent) => {
+    const swipe = swipeRef.current;
+    if (!swipe || e.pointerType === 'mouse') return;
+    swipeRef.current = null;
+    const dx = e.clientX - swipe.x;
+    const dy = e.clientY - swipe.y;
+    if (swipe.multiTouch || isZoomed || Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy) * 1.5) return;
+    if (dx < 0 && next) onNavigate(next);
+    if (dx > 0 && previous) onNavigate(previous);
+  };
 
   useEffect(() => {
     let url: string | null = null;
+    let streamUrl: string | null = null;
+    const controller = new AbortController();
+    const viewer = viewerFor(file);
+    setDataUrl(null);
+    setBlob(null);
+    setIsZoomed(false);
+    setLoadError('');
+    setIsDecrypting(true);
     const assemble = async () => {
       try {
-        let blob: Blob;
-        if (file.isChunked && file.chunkIds && file.chunkIvs) {
-          const chunks: ArrayBuffer[] = [];
-          for (let i = 0; i < file.chunkIds.length; i++) {
-            const encryptedChunk = await getChunk(file.chunkIds[i]);
-            const decryptedChunk = await decryptChunk(encryptedChunk, vaultPin, file.chunkIvs[i], file.salt);
-            chunks.push(decryptedChunk);
+        // Formats without a viewer are only ever restored on demand
+        if (!viewer) return;
+
+        // Video and audio play straight from the service worker as they decrypt
+        if (viewer === 'video' || viewer === 'audio') {
+          streamUrl = await openStreamUrl(file, vaultKeys);
+          if (controller.signal.aborted) {
+            if (streamUrl) releaseStreamUrl(streamUrl);
+            return;
           }
-          blob = new Blob(chunks, { type: file.mimeType });
-        } else {
-          const decrypted = await decryptFile(file.encryptedData!, vaultPin, file.iv, file.salt, file.isCompressed);
-          blob = new Blob([decrypted], { type: file.mimeType });
+          if (streamUrl) {
+            setDataUrl(streamUrl);
+            return;
+          }
+        }
+
+        const blob = await readPreviewBlob(file, vaultKeys, controller.signal);
+        if (controller.signal.aborted) return;
+        // Documents are rendered from the Blob in memory, never from a URL
+        if (viewer !== 'image' && viewer !== 'video' && viewer !== 'audio') {
+          setBlob(blob);
+          return;
         }
-        url = URL.createObjectURL(blob);
+        url = createObjectUrl(blob);
         setDataUrl(url);
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error("Decryption failed", err);
+        setLoadError(err instanceof IntegrityError ? err.message : 'This file could not be decrypted.');
       } finally {
         setIsDecrypting(false);
       }
     };
     assemble();
-    return () => { if (url) URL.revokeObjectURL(url); };
-  }, [file.id, vaultPin]);
+    return () => {
+      controller.abort();
+      if (url) revokeObjectUrl(url);
+      if (streamUrl) releaseStreamUrl(streamUrl);
+    };
+  }, [file.id, vaultKeys]);
+
+  const viewer = viewerFor(file);
 
   return (
     <motion.div 
@@ -1492,23 +2883,57 @@ function PreviewModal({ file, vaultPin, onClose, onDownload }: any) {
         className="w-full h-full max-w-7xl flex flex-col bg-slate-900/40 rounded-[2rem] sm:rounded-[3rem] border border-white/5 overflow-hidden shadow-2xl"
       >
         <div className="px-5 sm:px-8 py-4 sm:py-6 flex justify-between items-center bg-slate-900/80 border-b border-white/5 z-20">
-            <h2 className="text-xs sm:text-sm font-black text-white truncate max-w-[40%]">{file.name}</h2>
+            <div className="min-w-0 max-w-[40%]">
+              <h2 className="text-xs sm:text-sm font-black text-white truncate">{file.name}</h2>
+              {index >= 0 && files.length > 1 && <p className="text-[8px] sm:text-[9px] font-bold uppercase tracking-widest text-slate-500 mt-1">{index + 1} of {files.length}</p>}
+            </div>
             <div className="flex gap-2 sm:gap-3">
+              {images.length > 1 && (
+                <button onClick={() => setIsPlaying(!isPlaying)} title={isPlaying ? 'Pause Slideshow' : 'Slideshow'} className={`p-2.5 sm:p-4 rounded-xl sm:rounded-2xl active:scale-95 ${isPlaying ? 'bg-indigo-600 text-white' : 'bg-white/5 text-white hover:bg-white/10'}`}>
+                  {isPlaying ? <PauseIcon className="w-5 h-5 sm:w-7 sm:h-7" /> : <PlayIcon className="w-5 h-5 sm:w-7 sm:h-7" />}
+                </button>
+              )}
+              {versions.length > 0 && (
+                <button onClick={() => setShowHistory(!showHistory)} className={`flex items-center gap-2 px-3 sm:px-5 py-2.5 sm:py-4 rounded-xl sm:rounded-2xl font-black uppercase text-[8px] sm:text-[10px] tracking-widest active:scale-95 ${showHistory ? 'bg-indigo-600 text-white' : 'bg-white/5 text-white hover:bg-white/10'}`}>
+                  <ClockIcon className="w-4 h-4" /> {versions.length + 1} Versions
+                </button>
+              )}
               <button onClick={onDownload} className="flex items-center gap-2 px-4 sm:px-6 py-2.5 sm:py-4 bg-emerald-600 text-white rounded-xl sm:rounded-2xl font-black uppercase text-[8px] sm:text-[10px] tracking-widest active:scale-95 shadow-xl">Restore</button>
               <button onClick={onClose} className="p-2.5 sm:p-4 bg-white/5 text-white rounded-xl sm:rounded-2xl hover:bg-white/10 active:scale-95"><XMarkIcon className="w-5 h-5 sm:w-7 sm:h-7" /></button>
             </div>
         </div>
-        <div className="flex-1 relative flex items-center justify-center p-2 sm:p-4 overflow-hidden text-white">
+        <div onPointerDown={handleSwipeStart} onPointerUp={handleSwipeEnd} onPointerCancel={() => { swipeRef.current = null; }} className="flex-1 relative flex items-center justify-center p-2 sm:p-4 overflow-hidden text-white">
+            {previous && (
+              <button onClick={() => onNavigate(previous)} title="Previous" className="hidden sm:flex absolute left-4 top-1/2 -translate-y-1/2 z-10 p-3 bg-slate-900/70 text-white rounded-2xl hover:bg-slate-800 active:scale-95"><ChevronLeftIcon className="w-6 h-6" /></button>
+            )}
+            {next && (
+              <button onClick={() => onNavigate(next)} title="Next" className="hidden sm:flex absolute right-4 top-1/2 -translate-y-1/2 z-10 p-3 bg-slate-900/70 text-white rounded-2xl hover:bg-slate-800 active:scale-95"><ChevronRightIcon className="w-6 h-6" /></button>
+            )}
             {isDecrypting ? (
                 <div className="flex flex-col items-center gap-4 sm:gap-6">
                    <ArrowPathIcon className="w-10 h-10 sm:w-12 sm:h-12 text-indigo-500 animate-spin" />
                    <p className="text-[8px] sm:text-[10px] font-black uppercase tracking-[0.5em] text-indigo-500 text-center">Unlocking Safe...</p>
                 </div>
+            ) : loadError ? (
+                <div className="text-center p-8 sm:p-12 bg-slate-900/80 rounded-[2rem] sm:rounded-[3rem] border border-rose-500/20 max-w-sm text-white shadow-2xl">
+                  <ExclamationTriangleIcon className="w-16 h-16 sm:w-20 sm:h-20 text-rose-500 mx-auto mb-4 sm:mb-6" />
+                  <p className="text-[10px] sm:text-xs font-black uppercase tracking-widest text-rose-400 mb-2">Integrity Check Failed</p>
+                  <p className="text-xs sm:text-sm text-slate-400 font-bold leading-relaxed">{loadError}</p>
+                </div>
             ) : (
               <div className="w-full h-full flex items-center justify-center">
-                {file.type === 'image' && dataUrl && <img src={dataUrl} alt="Preview" className="max-w-full max-h-full object-contain rounded-lg sm:rounded-xl shadow-2xl" />}
-                {file.type === 'video' && dataUrl && <video src={dataUrl} controls autoPlay className="max-w-full max-h-full object-contain rounded-lg sm:rounded-xl shadow-2xl" />}
-                {(file.type === 'document' || file.type === 'other') && (
+                {viewer === 'image' && dataUrl && <ZoomableImage src={dataUrl} onZoomChange={setIsZoomed} />}
+                {viewer === 'video' && dataUrl && <video src={dataUrl} controls autoPlay onError={() => setLoadError('This video could not be decrypted.')} className="max-w-full max-h-full object-contain rounded-lg sm:rounded-xl shadow-2xl" />}
+                {viewer === 'audio' && dataUrl && (
+                  <div className="w-full max-w-md text-center p-8 sm:p-12 bg-slate-900/80 rounded-[2rem] sm:rounded-[3rem] border border-white/5 shadow-2xl">
+                    <MusicalNoteIcon className="w-16 h-16 sm:w-20 sm:h-20 text-indigo-400 mx-auto mb-4 sm:mb-6" />
+                    <p className="text-xs sm:text-sm font-black truncate mb-6">{file.name}</p>
+                    <audio src={dataUrl} controls autoPlay onError={() => setLoadError('This recording could not be decrypted.')} className="w-full" />
+                  </div>
+                )}
+                {viewer === 'pdf' && blob && <PdfViewer blob={blob} onError={setLoadError} />}
+                {(viewer === 'markdown' || viewer === 'code' || viewer === 'text') && blob && <TextViewer blob={blob} viewer={viewer} language={languageOf(file)} />}
+                {!viewer && (
                   <div className="text-center p-8 sm:p-12 bg-slate-900/80 rounded-[2rem] sm:rounded-[3rem] border border-white/5 max-w-sm text-white shadow-2xl">
                     <DocumentIcon className="w-16 h-16 sm:w-20 sm:h-20 text-indigo-400 mx-auto mb-4 sm:mb-6" />
                     <button onClick={onDownload} className="w-full bg-white text-slate-950 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[11px] tracking-widest active:scale-95">Download to View</button>
@@ -1516,40 +2941,1207 @@ function PreviewModal({ file, vaultPin, onClose, onDownload }: any) {
                 )}
               </div>
             )}
+            {showHistory && <VersionHistoryPanel current={file} versions={versions} onDownload={onDownloadVersion} onRestore={onRestoreVersion} onDelete={onDeleteVersion} />}
         </div>
       </motion.div>
     </motion.div>
   );
 }
 
-function DeleteConfirmModal({ onClose, onConfirm }: any) {
+const NOTE_AUTOSAVE_DELAY = 1200;
+
+// The text of a note is only ever held in memory here: every save, autosave
+// included, is encrypted by the note service before it reaches storage. Spell
+// checking is off so browsers with cloud spellcheck don't send the text out.
+function NoteEditorModal({ note, vaultId, folderId, vaultKeys, onSaved, onClose }: any) {
+  const [title, setTitle] = useState(note?.name ?? '');
+  const [body, setBody] = useState('');
+  const [mode, setMode] = useState<'edit' | 'preview'>(note ? 'preview' : 'edit');
+  const [status, setStatus] = useState('');
+  const [isLoading, setIsLoading] = useState(!!note);
+  const [loadError, setLoadError] = useState('');
+  const noteRef = useRef<StoredFile | null>(note);
+  const draftRef = useRef({ title: note?.name ?? '', body: '' });
+  const savedRef = useRef(draftRef.current);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const timerRef = useRef<number | undefined>(undefined);
+  const readOnly = !!note && isTrashed(note);
+
+  useEffect(() => {
+    if (!note) return;
+    const controller = new AbortController();
+    readNote(note, vaultKeys, controller.signal).then(text => {
+      if (controller.signal.aborted) return;
+      draftRef.current = savedRef.current = { title: note.name, body: text };
+      setBody(text);
+    }).catch(err => {
+      if (controller.signal.aborted) return;
+      console.error("Note decryption failed", err);
+      setLoadError(err instanceof IntegrityError ? err.message : 'This note could not be decrypted.');
+    }).finally(() => {
+      if (!controller.signal.aborted) setIsLoading(false);
+    });
+    return () => controller.abort();
+  }, []);
+
+  // Saves run one after another, so a new note is only created once
+  const save = () => {
+    clearTimeout(timerRef.current);
+    saveChainRef.current = saveChainRef.current.then(async () => {
+      const draft = draftRef.current;
+      if (draft === savedRef.current) return;
+      if (!noteRef.current && !draft.title.trim() && !draft.body.trim()) return;
+      setStatus('Saving...');
+      try {
+        const saved = noteRef.current
+          ? await updateNote(noteRef.current, draft.title, draft.body, vaultKeys)
+          : await createNote(vaultId, folderId, draft.title, draft.body, vaultKeys);
+        if (!saved) {
+          setStatus('This note was deleted');
+          return;
+        }
+        noteRef.current = saved;
+        savedRef.current = draft;
+        setStatus(draftRef.current === draft ? `Saved ${new Date(saved.updatedAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Unsaved changes');
+        onSaved(saved);
+      } catch (err) {
+        console.error("Note save failed", err);
+        setStatus('Not saved');
+      }
+    });
+    return saveChainRef.current;
+  };
+
+  // Whatever is still unsaved is written when the editor goes away, e.g. on lock
+  useEffect(() => () => { save(); }, []);
+
+  const edit = (changes: { title?: string, body?: string }) => {
+    draftRef.current = { ...draftRef.current, ...changes };
+    if (changes.title !== undefined) setTitle(changes.title);
+    if (changes.body !== undefined) setBody(changes.body);
+    setStatus('Unsaved changes');
+    clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(save, NOTE_AUTOSAVE_DELAY);
+  };
+
+  const handleClose = async () => {
+    await save();
+    if (draftRef.current !== savedRef.current && (noteRef.current || draftRef.current.body.trim()) && !confirm('This note could not be saved. Close anyway?')) return;
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+      e.preventDefault();
+      save();
+    }
+  };
+
   return (
-    <ModalWrapper onClose={onClose}>
-       <div className="text-center">
-          <div className="w-16 h-16 sm:w-20 sm:h-20 bg-rose-50 rounded-2xl sm:rounded-3xl flex items-center justify-center mb-6 sm:mb-8 mx-auto"><ExclamationTriangleIcon className="w-8 h-8 sm:w-10 sm:h-10 text-rose-600" /></div>
-          <h2 className="text-xl sm:text-2xl font-brand font-black mb-3 tracking-tight text-center">Delete Forever?</h2>
-          <p className="text-slate-500 text-xs sm:text-sm mb-8 sm:mb-10 leading-relaxed font-bold">This file will be completely wiped from your secure safe storage.</p>
-          <div className="grid grid-cols-2 gap-3 sm:gap-4">
-             <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
-             <button onClick={onConfirm} className="bg-rose-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Delete</button>
-          </div>
-       </div>
-    </ModalWrapper>
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-slate-950/90 z-[500] flex items-center justify-center p-3 sm:p-10 backdrop-blur-xl"
+      onKeyDown={handleKeyDown}
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="w-full h-full max-w-4xl flex flex-col bg-white rounded-[2rem] sm:rounded-[3rem] overflow-hidden shadow-2xl border-t-8 border-amber-400"
+      >
+        <div className="px-5 sm:px-8 py-4 sm:py-5 flex items-center gap-3 border-b border-slate-100">
+          <DocumentTextIcon className="w-6 h-6 text-amber-400 flex-shrink-0" />
+          <input
+            value={title}
+            onChange={(e) => edit({ title: e.target.value })}
+            placeholder="Untitled note"
+            disabled={isLoading || readOnly || !!loadError}
+            autoComplete="off"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-transparent text-sm sm:text-lg font-black text-slate-900 placeholder-slate-300 outline-none"
+          />
+          <span className="hidden sm:inline text-[9px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">{readOnly ? 'In Trash' : status}</span>
+          {!readOnly && (
+            <button onClick={() => setMode(mode === 'edit' ? 'preview' : 'edit')} disabled={isLoading || !!loadError} title={mode === 'edit' ? 'Preview' : 'Edit'} className="p-2.5 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 active:scale-95 disabled:opacity-40">
+              {mode === 'edit' ? <EyeIcon className="w-5 h-5" /> : <PencilSquareIcon className="w-5 h-5" />}
+            </button>
+          )}
+          <button onClick={handleClose} className="p-2.5 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 active:scale-95"><XMarkIcon className="w-5 h-5" /></button>
+        </div>
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center"><ArrowPathIcon className="w-10 h-10 text-amber-400 animate-spin" /></div>
+          ) : loadError ? (
+            <div className="h-full flex flex-col items-center justify-center gap-3 p-8 text-center">
+              <ExclamationTriangleIcon className="w-14 h-14 text-rose-500" />
+              <p className="text-xs sm:text-sm text-slate-500 font-bold">{loadError}</p>
+            </div>
+          ) : mode === 'edit' && !readOnly ? (
+            <textarea
+              value={body}
+              onChange={(e) => edit({ body: e.target.value })}
+              placeholder="Write in markdown: # headings, **bold**, - lists, [ ] tasks..."
+              autoFocus
+              autoComplete="off"
+              spellCheck={false}
+              className="w-full h-full resize-none p-5 sm:p-8 font-mono text-xs sm:text-sm leading-relaxed text-slate-800 placeholder-slate-300 outline-none"
+            />
+          ) : (
+            <div className="p-5 sm:p-8">
+              {body.trim() ? <MarkdownView source={body} /> : <p className="text-xs font-bold text-slate-300">This note is empty.</p>}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
   );
 }
 
-function RenameModal({ file, onClose, onConfirm }: any) {
-    const [name, setName] = useState(file.name);
-    return (
-        <ModalWrapper onClose={onClose}>
-           <div className="text-center">
-              <h2 className="text-xl sm:text-2xl font-brand font-black mb-6 tracking-tight text-center">Rename Item</h2>
-              <input type="text" autoFocus className="w-full bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 sm:py-4 px-5 sm:px-6 text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none mb-6 sm:mb-8" value={name} onChange={(e) => setName(e.target.value)} />
-              <div className="grid grid-cols-2 gap-3 sm:gap-4">
-                 <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
-                 <button onClick={() => onConfirm(name)} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95">Save</button>
-              </div>
-           </div>
+function MarkdownInlines({ content }: { content: MarkdownInline[] }) {
+  return (
+    <>
+      {content.map((part, i) => {
+        if (part.kind === 'code') return <code key={i} className="px-1 py-0.5 bg-slate-100 rounded font-mono text-[0.9em]">{part.text}</code>;
+        if (part.kind === 'strong') return <strong key={i} className="font-black">{part.text}</strong>;
+        if (part.kind === 'em') return <em key={i}>{part.text}</em>;
+        if (part.kind === 'link') return <a key={i} href={part.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline">{part.text}</a>;
+        return <React.Fragment key={i}>{part.text}</React.Fragment>;
+      })}
+    </>
+  );
+}
+
+const HEADING_STYLES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+
+function MarkdownView({ source }: { source: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className="space-y-3 text-sm leading-relaxed text-slate-800 break-words">
+      {blocks.map((block: MarkdownBlock, i) => {
+        switch (block.kind) {
+          case 'heading':
+            return <p key={i} className={`${HEADING_STYLES[block.level - 1]} font-black font-brand text-slate-900 pt-2`}><MarkdownInlines content={block.content} /></p>;
+          case 'quote':
+            return <blockquote key={i} className="border-l-4 border-slate-200 pl-4 text-slate-500 whitespace-pre-wrap"><MarkdownInlines content={block.content} /></blockquote>;
+          case 'code':
+            return <pre key={i} className="p-4 bg-slate-900 text-slate-100 rounded-2xl font-mono text-xs overflow-x-auto">{block.text}</pre>;
+          case 'rule':
+            return <hr key={i} className="border-slate-200" />;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={`space-y-1 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => (
+                  <li key={j} className={item.checked !== undefined ? 'list-none -ml-5 flex items-start gap-2' : ''}>
+                    {item.checked !== undefined && <input type="checkbox" checked={item.checked} readOnly className="mt-1 accent-indigo-600" />}
+                    <span className={item.checked ? 'line-through text-slate-400' : ''}><MarkdownInlines content={item.content} /></span>
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          default:
+            return <p key={i} className="whitespace-pre-wrap"><MarkdownInlines content={block.content} /></p>;
+        }
+      })}
+    </div>
+  );
+}
+
+const MAX_IMAGE_ZOOM = 5;
+const DOUBLE_TAP_ZOOM = 2.5;
+
+// Pinch or wheel to zoom, drag to pan once zoomed, double-tap to toggle
+function ZoomableImage({ src, onZoomChange }: any) {
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const pointers = useRef(new Map<number, { x: number, y: number }>());
+  const pinchRef = useRef<{ distance: number, scale: number } | null>(null);
+
+  useEffect(() => setView({ scale: 1, x: 0, y: 0 }), [src]);
+  useEffect(() => onZoomChange(view.scale > 1), [view.scale > 1]);
+
+  const distance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+  const clampScale = (scale: number) => Math.min(MAX_IMAGE_ZOOM, Math.max(1, scale));
+  const settle = (next: { scale: number, x: number, y: number }) => next.scale <= 1.01 ? { scale: 1, x: 0, y: 0 } : next;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) pinchRef.current = { distance: distance(), scale: view.scale };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const last = pointers.current.get(e.pointerId);
+    if (!last) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2 && pinchRef.current) {
+      const pinch = pinchRef.current;
+      setView(v => ({ ...v, scale: clampScale(pinch.scale * distance() / pinch.distance) }));
+    } else if (pointers.current.size === 1) {
+      setView(v => v.scale > 1 ? { ...v, x: v.x + e.clientX - last.x, y: v.y + e.clientY - last.y } : v);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchRef.current = null;
+    if (pointers.current.size === 0) setView(settle);
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setView(v => settle({ ...v, scale: clampScale(v.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)) }));
+  };
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+      onDoubleClick={() => setView(v => v.scale > 1 ? { scale: 1, x: 0, y: 0 } : { scale: DOUBLE_TAP_ZOOM, x: 0, y: 0 })}
+      className={`w-full h-full flex items-center justify-center touch-none select-none ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+    >
+      <img
+        src={src}
+        alt="Preview"
+        draggable={false}
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        className="max-w-full max-h-full object-contain rounded-lg sm:rounded-xl shadow-2xl transition-transform duration-75"
+      />
+    </div>
+  );
+}
+
+const PDF_PAGE_EDGE = 1000; // Longer side of a page at 100%, in CSS pixels
+const PDF_ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+// Pages are drawn into a fresh canvas each time, so a page still rendering
+// never shares its canvas with the next one.
+function PdfViewer({ blob, onError }: any) {
+  const [doc, setDoc] = useState<any>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [zoom, setZoom] = useState(1);
+  const [isRendering, setIsRendering] = useState(true);
+  const pageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let opened: any = null;
+    let cancelled = false;
+    setDoc(null);
+    setPageNumber(1);
+    (async () => {
+      const { openPdf } = await import('./services/pdfService.ts');
+      const pdf = await openPdf(await blob.arrayBuffer());
+      if (cancelled) pdf.destroy();
+      else setDoc(opened = pdf);
+    })().catch(err => {
+      if (cancelled) return;
+      console.error("PDF could not be opened", err);
+      onError('This PDF could not be opened.');
+    });
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [blob]);
+
+  useEffect(() => {
+    if (!doc) return;
+    let cancelled = false;
+    setIsRendering(true);
+    (async () => {
+      const { renderPdfPage } = await import('./services/pdfService.ts');
+      const canvas = document.createElement('canvas');
+      const ratio = window.devicePixelRatio || 1;
+      await renderPdfPage(await doc.getPage(pageNumber), canvas, PDF_PAGE_EDGE * zoom, ratio);
+      if (cancelled) return;
+      canvas.style.width = `${canvas.width / ratio}px`;
+      canvas.className = 'max-w-none bg-white rounded-lg shadow-2xl';
+      pageRef.current?.replaceChildren(canvas);
+    })().catch(() => {
+      if (!cancelled) onError('This page could not be rendered.');
+    }).finally(() => {
+      if (!cancelled) setIsRendering(false);
+    });
+    return () => { cancelled = true; };
+  }, [doc, pageNumber, zoom]);
+
+  const zoomIndex = PDF_ZOOM_LEVELS.indexOf(zoom);
+  const pageCount = doc?.numPages ?? 0;
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex-1 overflow-auto">
+        <div ref={pageRef} className="min-w-full min-h-full w-max flex items-start justify-center p-2 sm:p-4" />
+      </div>
+      <div className="flex items-center justify-center gap-2 sm:gap-3 pt-3">
+        <button onClick={() => setPageNumber(pageNumber - 1)} disabled={pageNumber <= 1} className="p-2.5 bg-white/5 rounded-xl hover:bg-white/10 active:scale-95 disabled:opacity-30"><ChevronLeftIcon className="w-4 h-4" /></button>
+        <span className="text-[9px] sm:text-[10px] font-black uppercase tracking-widest text-slate-300 min-w-[5rem] text-center">
+          {isRendering && !doc ? 'Opening...' : `${pageNumber} / ${pageCount}`}
+        </span>
+        <button onClick={() => setPageNumber(pageNumber + 1)} disabled={pageNumber >= pageCount} className="p-2.5 bg-white/5 rounded-xl hover:bg-white/10 active:scale-95 disabled:opacity-30"><ChevronRightIcon className="w-4 h-4" /></button>
+        <div className="w-px h-6 bg-white/10 mx-1" />
+        <button onClick={() => setZoom(PDF_ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} className="p-2.5 bg-white/5 rounded-xl hover:bg-white/10 active:scale-95 disabled:opacity-30"><MagnifyingGlassMinusIcon className="w-4 h-4" /></button>
+        <span className="text-[9px] sm:text-[10px] font-black tracking-widest text-slate-300 w-10 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom(PDF_ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= PDF_ZOOM_LEVELS.length - 1} className="p-2.5 bg-white/5 rounded-xl hover:bg-white/10 active:scale-95 disabled:opacity-30"><MagnifyingGlassPlusIcon className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+}
+
+const TEXT_VIEW_LIMIT = 2 * 1024 * 1024; // Larger files show their beginning
+const HIGHLIGHT_LIMIT = 256 * 1024; // Larger code is shown without colors
+const TOKEN_STYLES: Record<CodeToken['kind'], string> = {
+  plain: '',
+  keyword: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-300',
+  tag: 'text-sky-300'
+};
+
+function TextViewer({ blob, viewer, language }: any) {
+  const [text, setText] = useState<string | null>(null);
+  const truncated = blob.size > TEXT_VIEW_LIMIT;
+
+  useEffect(() => {
+    let cancelled = false;
+    blob.slice(0, TEXT_VIEW_LIMIT).text().then((value: string) => !cancelled && setText(value));
+    return () => { cancelled = true; };
+  }, [blob]);
+
+  const tokens = useMemo(() => {
+    if (text === null || viewer !== 'code' || !language || text.length > HIGHLIGHT_LIMIT) return null;
+    return highlightCode(text, language);
+  }, [text, viewer, language]);
+  const lineNumbers = useMemo(() => text === null ? '' : Array.from({ length: text.split('\n').length }, (_, i) => i + 1).join('\n'), [text]);
+
+  if (text === null) return <ArrowPathIcon className="w-10 h-10 text-indigo-500 animate-spin" />;
+
+  return (
+    <div className="w-full h-full overflow-auto">
+      {truncated && <p className="text-center text-[9px] font-black uppercase tracking-widest text-amber-400 mb-3">Showing the first {formatSize(TEXT_VIEW_LIMIT)}</p>}
+      {viewer === 'markdown' ? (
+        <div className="max-w-3xl mx-auto bg-white rounded-2xl sm:rounded-[2rem] p-6 sm:p-10 shadow-2xl">
+          <MarkdownView source={text} />
+        </div>
+      ) : (
+        <div className="flex min-w-max font-mono text-[11px] sm:text-xs leading-relaxed">
+          <pre className="select-none text-right text-slate-600 pr-4 border-r border-white/5">{lineNumbers}</pre>
+          <pre className="pl-4 text-slate-200">
+            {tokens ? tokens.map((token, i) => token.kind === 'plain' ? token.text : <span key={i} className={TOKEN_STYLES[token.kind]}>{token.text}</span>) : text}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionHistoryPanel({ current, versions, onDownload, onRestore, onDelete }: any) {
+  return (
+    <div className="absolute inset-y-0 right-0 w-full sm:w-80 bg-slate-900/95 border-l border-white/5 p-4 sm:p-6 overflow-y-auto z-10">
+      <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-4">Version History</p>
+      <div className="p-3 sm:p-4 bg-indigo-600/20 border border-indigo-500/30 rounded-2xl mb-3">
+        <p className="text-[10px] sm:text-xs font-black text-white">{new Date(current.createdAt).toLocaleString()}</p>
+        <p className="text-[8px] sm:text-[9px] font-bold uppercase tracking-widest text-indigo-300 mt-1">Current · {formatSize(current.size)}</p>
+      </div>
+      <div className="space-y-3">
+        {versions.map((version: StoredFile) => (
+          <div key={version.id} className="p-3 sm:p-4 bg-white/5 rounded-2xl">
+            <p className="text-[10px] sm:text-xs font-black text-white">{new Date(version.createdAt).toLocaleString()}</p>
+            <p className="text-[8px] sm:text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">{formatSize(version.size)} · Replaced {new Date(version.supersededAt!).toLocaleDateString()}</p>
+            <div className="flex gap-2 mt-3">
+              <button onClick={() => onRestore(version)} className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-white text-slate-950 rounded-xl font-black uppercase text-[8px] tracking-widest active:scale-95">
+                <ArrowUturnLeftIcon className="w-3.5 h-3.5" /> Make Current
+              </button>
+              <button onClick={() => onDownload(version)} title="Restore to device" className="p-2 bg-white/10 text-white rounded-xl hover:bg-white/20 active:scale-95"><ArrowDownTrayIcon className="w-4 h-4" /></button>
+              <button onClick={() => onDelete(version)} title="Delete version" className="p-2 bg-rose-500/20 text-rose-400 rounded-xl hover:bg-rose-500/30 active:scale-95"><TrashIcon className="w-4 h-4" /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const DAMAGE_LABELS: Record<string, string> = {
+  'missing-chunks': 'Missing parts',
+  'unreadable-metadata': 'Unreadable details',
+  'corrupted': 'Failed integrity check'
+};
+
+function VaultHealthPanel({ activeProfile, vaultKeys, isBusy, onFilesRemoved }: any) {
+  const [report, setReport] = useState<VaultHealthReport | null>(null);
+  const [progress, setProgress] = useState('');
+  const [deep, setDeep] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const scanAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => scanAbortRef.current?.abort(), []);
+
+  const runScan = async () => {
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setIsWorking(true);
+    setReport(null);
+    setProgress('Scanning...');
+    try {
+      setReport(await scanVaultHealth(activeProfile.id, vaultKeys, {
+        deep,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(`Checking ${done + 1}/${total}`)
+      }));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Health scan failed", err);
+        alert('Health scan failed.');
+      }
+    } finally {
+      setIsWorking(false);
+      setProgress('');
+    }
+  };
+
+  const handleReclaim = async () => {
+    if (!report) return;
+    setIsWorking(true);
+    try {
+      await reclaimOrphans(report);
+      setReport({ ...report, orphanedChunkIds: [], orphanedRecordIds: [], reclaimableBytes: 0 });
+    } catch (err) {
+      console.error(err);
+      alert('Cleanup failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemoveDamaged = async () => {
+    if (!report || !confirm(`Remove ${report.damaged.length} damaged item(s)? They can't be restored.`)) return;
+    setIsWorking(true);
+    try {
+      onFilesRemoved(await removeDamagedFiles(report));
+      setReport({ ...report, damaged: [] });
+    } catch (err) {
+      console.error(err);
+      alert('Repair failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const orphanCount = report ? report.orphanedChunkIds.length + report.orphanedRecordIds.length : 0;
+  const isHealthy = report && orphanCount === 0 && report.damaged.length === 0;
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <CpuChipIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Vault Health</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">
+              {progress || (report ? `${report.scannedFiles} items · ${report.scannedChunks} parts checked` : 'Find leftovers and damaged items')}
+            </p>
+          </div>
+        </div>
+        <button onClick={runScan} disabled={isWorking || isBusy} className="px-4 py-2.5 bg-indigo-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">
+          {isWorking && progress ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : 'Scan'}
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 mb-2 cursor-pointer">
+        <input type="checkbox" checked={deep} onChange={(e) => setDeep(e.target.checked)} disabled={isWorking} className="accent-indigo-600" />
+        Deep check (decrypts every file, slower)
+      </label>
+      {isBusy && <p className="text-[10px] font-bold text-amber-600">Available once uploads and background tasks finish.</p>}
+
+      {isHealthy && (
+        <div className="flex items-center gap-2 mt-3 text-emerald-700">
+          <CheckBadgeIcon className="w-5 h-5" />
+          <p className="text-xs font-black">No problems found{report!.deep ? '' : ' (quick check)'}.</p>
+        </div>
+      )}
+
+      {report && orphanCount > 0 && (
+        <div className="mt-3 p-4 bg-white rounded-2xl border border-slate-100 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-xs font-black">{orphanCount} leftover item{orphanCount === 1 ? '' : 's'}</p>
+            <p className="text-[10px] font-bold text-slate-400">{formatSize(report.reclaimableBytes)} can be reclaimed</p>
+          </div>
+          <button onClick={handleReclaim} disabled={isWorking || isBusy} className="px-4 py-2.5 bg-emerald-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">Reclaim</button>
+        </div>
+      )}
+
+      {report && report.damaged.length > 0 && (
+        <div className="mt-3 p-4 bg-white rounded-2xl border border-rose-100">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <p className="text-xs font-black text-rose-600">{report.damaged.length} damaged item{report.damaged.length === 1 ? '' : 's'}</p>
+            <button onClick={handleRemoveDamaged} disabled={isWorking || isBusy} className="px-4 py-2.5 bg-rose-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">Remove</button>
+          </div>
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {report.damaged.map(d => (
+              <li key={d.id} className="flex justify-between gap-2 text-[10px] font-bold">
+                <span className="truncate text-slate-700">{d.name || 'Unknown item'}</span>
+                <span className="text-rose-500 flex-shrink-0">{DAMAGE_LABELS[d.reason]}{d.missingChunks ? ` (${d.missingChunks})` : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ThumbnailPanel({ files, activeProfile, vaultKeys, isBusy, onRebuilt }: any) {
+  const [all, setAll] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [result, setResult] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRebuild = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWorking(true);
+    setResult('');
+    setProgress('Preparing...');
+    try {
+      const { built, failed } = await rebuildThumbnails(activeProfile.id, files, vaultKeys, {
+        all,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(`Rendering ${done + 1}/${total}`)
+      });
+      setResult(built + failed === 0 ? 'All thumbnails are up to date.' : `${built} rebuilt${failed ? `, ${failed} not supported` : ''}.`);
+      if (built > 0) onRebuilt();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Thumbnail rebuild failed", err);
+        alert('Thumbnail rebuild failed.');
+      }
+    } finally {
+      setIsWorking(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <PhotoIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Thumbnails</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">{progress || result || 'Previews for photos, videos and PDFs'}</p>
+          </div>
+        </div>
+        <button onClick={handleRebuild} disabled={isWorking || isBusy || files.length === 0} className="px-4 py-2.5 bg-indigo-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">
+          {isWorking ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : 'Rebuild'}
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={all} onChange={(e) => setAll(e.target.checked)} disabled={isWorking} className="accent-indigo-600" />
+        Replace existing thumbnails too
+      </label>
+    </div>
+  );
+}
+
+function SearchIndexPanel({ files, vaultKeys, isBusy }: any) {
+  const [all, setAll] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [result, setResult] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleBuild = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWorking(true);
+    setResult('');
+    setProgress('Preparing...');
+    try {
+      const { indexed, failed } = await buildSearchIndex(files, vaultKeys, {
+        all,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(`Reading ${done + 1}/${total}`)
+      });
+      setResult(indexed + failed === 0 ? 'All documents are indexed.' : `${indexed} indexed${failed ? `, ${failed} unreadable` : ''}.`);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error("Search indexing failed", err);
+        alert('Search indexing failed.');
+      }
+    } finally {
+      setIsWorking(false);
+      setProgress('');
+    }
+  };
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <DocumentMagnifyingGlassIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Search Index</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">{progress || result || 'Text of documents, PDFs and notes'}</p>
+          </div>
+        </div>
+        <button onClick={handleBuild} disabled={isWorking || isBusy || files.length === 0} className="px-4 py-2.5 bg-indigo-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 disabled:opacity-40">
+          {isWorking ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : 'Index'}
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={all} onChange={(e) => setAll(e.target.checked)} disabled={isWorking} className="accent-indigo-600" />
+        Re-read documents already indexed
+      </label>
+    </div>
+  );
+}
+
+// Empty limits keep every version
+const parseLimit = (value: string) => {
+  const limit = parseInt(value, 10);
+  return limit > 0 ? limit : undefined;
+};
+
+function VersioningPanel({ policy, onChange }: any) {
+  const [keepLast, setKeepLast] = useState(policy.keepLast ? String(policy.keepLast) : '');
+  const [keepDays, setKeepDays] = useState(policy.keepDays ? String(policy.keepDays) : '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (changes: Partial<VersionPolicy>) => {
+    setIsSaving(true);
+    try {
+      await onChange({ ...policy, ...changes });
+    } catch (err) {
+      console.error("Version settings not saved", err);
+      alert('Could not save the version settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveLimits = () => {
+    const limits = { keepLast: parseLimit(keepLast), keepDays: parseLimit(keepDays) };
+    if (limits.keepLast === policy.keepLast && limits.keepDays === policy.keepDays) return;
+    const pruning = (limits.keepLast ?? Infinity) < (policy.keepLast ?? Infinity) || (limits.keepDays ?? Infinity) < (policy.keepDays ?? Infinity);
+    if (pruning && !confirm('Older versions beyond the new limits will be deleted. Continue?')) {
+      setKeepLast(policy.keepLast ? String(policy.keepLast) : '');
+      setKeepDays(policy.keepDays ? String(policy.keepDays) : '');
+      return;
+    }
+    save(limits);
+  };
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <ClockIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Version History</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">Re-uploads keep the older file</p>
+          </div>
+        </div>
+        {isSaving ? <ArrowPathIcon className="w-5 h-5 text-indigo-600 animate-spin" /> : (
+          <input type="checkbox" checked={policy.enabled} onChange={(e) => save({ enabled: e.target.checked })} className="w-5 h-5 accent-indigo-600" />
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+          Keep last
+          <input type="number" min="1" value={keepLast} onChange={(e) => setKeepLast(e.target.value)} onBlur={saveLimits} placeholder="All" className="mt-1 w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-900 outline-none focus:border-indigo-500" />
+        </label>
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+          Keep for days
+          <input type="number" min="1" value={keepDays} onChange={(e) => setKeepDays(e.target.value)} onBlur={saveLimits} placeholder="Forever" className="mt-1 w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-900 outline-none focus:border-indigo-500" />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+const IDLE_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+const SESSION_LIMIT_OPTIONS = [15, 60, 240, 480];
+const LOCK_TRIGGERS: { key: 'lockOnHide' | 'lockOnBlur' | 'panicLock', label: string }[] = [
+  { key: 'lockOnHide', label: 'When the tab is hidden' },
+  { key: 'lockOnBlur', label: 'When the window loses focus' },
+  { key: 'panicLock', label: 'Panic lock: Ctrl/⌘+Shift+L or a three-finger tap' }
+];
+
+const formatWait = (ms: number) => {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatMinutes = (minutes: number) => minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+function AutoLockPanel({ policy, onChange }: any) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (changes: Partial<LockPolicy>) => {
+    setIsSaving(true);
+    try {
+      await onChange({ ...policy, ...changes });
+    } catch (err) {
+      console.error("Lock settings not saved", err);
+      alert('Could not save the lock settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const minutesOf = (value: string) => value ? Number(value) : undefined;
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <LockClosedIcon className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Auto-Lock</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">Open files are closed on lock</p>
+          </div>
+        </div>
+        {isSaving && <ArrowPathIcon className="w-5 h-5 text-indigo-600 animate-spin" />}
+      </div>
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+          Idle for
+          <select value={policy.idleMinutes ?? ''} onChange={(e) => save({ idleMinutes: minutesOf(e.target.value) })} disabled={isSaving} className="mt-1 w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-900 outline-none focus:border-indigo-500">
+            <option value="">Never</option>
+            {IDLE_LOCK_OPTIONS.map(m => <option key={m} value={m}>{formatMinutes(m)}</option>)}
+          </select>
+        </label>
+        <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+          Session limit
+          <select value={policy.maxSessionMinutes ?? ''} onChange={(e) => save({ maxSessionMinutes: minutesOf(e.target.value) })} disabled={isSaving} className="mt-1 w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-900 outline-none focus:border-indigo-500">
+            <option value="">None</option>
+            {SESSION_LIMIT_OPTIONS.map(m => <option key={m} value={m}>{formatMinutes(m)}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="space-y-2">
+        {LOCK_TRIGGERS.map(({ key, label }) => (
+          <label key={key} className="flex items-center justify-between gap-3 text-[11px] font-bold text-slate-600">
+            {label}
+            <input type="checkbox" checked={policy[key]} onChange={(e) => save({ [key]: e.target.checked })} disabled={isSaving} className="w-5 h-5 accent-indigo-600 flex-shrink-0" />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FailedPinPanel({ wipeAfter, onChange }: any) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = async (value: string) => {
+    const limit = value ? Number(value) : undefined;
+    if (limit && !confirm(`After ${limit} wrong PINs in a row, this vault and every file in it will be deleted for good. Continue?`)) return;
+    setIsSaving(true);
+    try {
+      await onChange(limit);
+    } catch (err) {
+      console.error("Wipe setting not saved", err);
+      alert('Could not save the wipe setting.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-5 sm:p-6 bg-slate-50 border border-slate-100 rounded-[1.5rem] sm:rounded-[2rem]">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <KeyIcon className="w-6 h-6 sm:w-8 sm:h-8 text-rose-600" />
+          <div>
+            <p className="text-xs sm:text-sm font-black font-brand leading-none">Wrong PINs</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400 mt-1">Lockouts grow after 3 failures</p>
+          </div>
+        </div>
+        {isSaving ? <ArrowPathIcon className="w-5 h-5 text-indigo-600 animate-spin" /> : (
+          <select value={wipeAfter ?? ''} onChange={(e) => handleChange(e.target.value)} className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black text-slate-900 outline-none focus:border-indigo-500">
+            <option value="">Never wipe</option>
+            {WIPE_OPTIONS.map(n => <option key={n} value={n}>Wipe after {n}</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const UPLOAD_STATUS_LABELS: Record<string, string> = {
+  queued: 'Waiting',
+  uploading: 'Encrypting',
+  paused: 'Paused',
+  retrying: 'Retrying soon',
+  interrupted: 'Select the file again to resume',
+  duplicate: 'Already in the vault',
+  failed: 'Failed',
+  done: 'Secured'
+};
+
+function UploadQueuePanel({ uploads, onPause, onResume, onRetry, onCancel, onClear, onKeep, onLink, onReselect, onPicking }: any) {
+  const [collapsed, setCollapsed] = useState(false);
+  const active = uploads.filter((u: any) => u.status !== 'done').length;
+  const hasFinished = uploads.some((u: any) => u.status === 'done');
+  const iconButton = "p-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 active:scale-95 transition-all";
+
+  return (
+    <motion.div 
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="fixed bottom-4 right-4 left-4 sm:left-auto sm:w-96 z-[300] bg-white rounded-[1.5rem] sm:rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden"
+    >
+      <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+        <button onClick={() => setCollapsed(!collapsed)} className="flex items-center gap-2 text-left">
+          <CloudArrowUpIcon className="w-5 h-5 text-indigo-600" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-700">
+            {active > 0 ? `Uploading ${active} item${active === 1 ? '' : 's'}` : 'Uploads complete'}
+          </span>
+        </button>
+        {hasFinished && (
+          <button onClick={onClear} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">Clear</button>
+        )}
+      </div>
+      {!collapsed && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+          {uploads.map((u: any) => (
+            <div key={u.id} className="px-5 py-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-800 truncate">{u.name}</p>
+                  <p className={`text-[9px] font-bold uppercase tracking-widest truncate ${u.status === 'failed' ? 'text-rose-500' : u.status === 'duplicate' ? 'text-amber-500' : 'text-slate-400'}`}>
+                    {u.error || (u.duplicateOf ? `Same as ${u.duplicateOf}` : UPLOAD_STATUS_LABELS[u.status])} · {formatSize(u.size)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 flex-shrink-0">
+                  {u.status === 'uploading' || u.status === 'queued' || u.status === 'retrying' ? (
+                    <button onClick={() => onPause(u.id)} title="Pause" className={iconButton}><PauseIcon className="w-4 h-4" /></button>
+                  ) : u.status === 'paused' ? (
+                    <button onClick={() => onResume(u.id)} title="Resume" className={iconButton}><PlayIcon className="w-4 h-4" /></button>
+                  ) : u.status === 'failed' ? (
+                    <button onClick={() => onRetry(u.id)} title="Retry" className={iconButton}><ArrowPathIcon className="w-4 h-4" /></button>
+                  ) : u.status === 'duplicate' ? (
+                    <>
+                      <button onClick={() => onLink(u.id)} title="Add Without Storing It Twice" className="px-2 py-1.5 rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 active:scale-95 transition-all text-[8px] font-black uppercase tracking-widest">Link</button>
+                      <button onClick={() => onKeep(u.id)} title="Keep Both" className="px-2 py-1.5 rounded-lg bg-slate-100 text-slate-600 hover:bg-slate-200 active:scale-95 transition-all text-[8px] font-black uppercase tracking-widest">Keep</button>
+                    </>
+                  ) : u.status === 'interrupted' ? (
+                    <label title="Select File" className={`${iconButton} cursor-pointer`}>
+                      <FolderIcon className="w-4 h-4" />
+                      <input 
+                        type="file" 
+                        className="hidden" 
+                        onClick={onPicking}
+                        onChange={(e) => { if (e.target.files) onReselect(Array.from(e.target.files)); e.target.value = ''; }} 
+                      />
+                    </label>
+                  ) : (
+                    <CheckIcon className="w-4 h-4 text-emerald-500" />
+                  )}
+                  {u.status !== 'done' && (
+                    <button onClick={() => onCancel(u.id)} title={u.status === 'duplicate' ? 'Skip' : 'Cancel'} className="p-1.5 rounded-lg bg-rose-50 text-rose-600 hover:bg-rose-100 active:scale-95 transition-all"><XMarkIcon className="w-4 h-4" /></button>
+                  )}
+                </div>
+              </div>
+              {u.status !== 'done' && (
+                <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div 
+                    className={`h-full rounded-full transition-all ${u.status === 'failed' ? 'bg-rose-500' : u.status === 'uploading' ? 'bg-indigo-600' : 'bg-slate-300'}`} 
+                    style={{ width: `${u.size ? Math.round((u.bytesDone / u.size) * 100) : 0}%` }} 
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+function DeleteConfirmModal({ permanent, retentionDays, onClose, onConfirm }: any) {
+  return (
+    <ModalWrapper onClose={onClose}>
+       <div className="text-center">
+          <div className="w-16 h-16 sm:w-20 sm:h-20 bg-rose-50 rounded-2xl sm:rounded-3xl flex items-center justify-center mb-6 sm:mb-8 mx-auto">{permanent ? <ExclamationTriangleIcon className="w-8 h-8 sm:w-10 sm:h-10 text-rose-600" /> : <TrashIcon className="w-8 h-8 sm:w-10 sm:h-10 text-rose-600" />}</div>
+          <h2 className="text-xl sm:text-2xl font-brand font-black mb-3 tracking-tight text-center">{permanent ? 'Delete Forever?' : 'Move to Trash?'}</h2>
+          <p className="text-slate-500 text-xs sm:text-sm mb-8 sm:mb-10 leading-relaxed font-bold">
+            {permanent ? 'This file will be completely wiped from your secure safe storage.' : `You can put it back from Trash for ${retentionDays} days.`}
+          </p>
+          <div className="grid grid-cols-2 gap-3 sm:gap-4">
+             <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+             <button onClick={onConfirm} className="bg-rose-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Delete</button>
+          </div>
+       </div>
+    </ModalWrapper>
+  );
+}
+
+function RenameModal({ file, onClose, onConfirm }: any) {
+    const [name, setName] = useState(file.name);
+    return (
+        <ModalWrapper onClose={onClose}>
+           <div className="text-center">
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-6 tracking-tight text-center">Rename Item</h2>
+              <input type="text" autoFocus className="w-full bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 sm:py-4 px-5 sm:px-6 text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none mb-6 sm:mb-8" value={name} onChange={(e) => setName(e.target.value)} />
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                 <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 <button onClick={() => onConfirm(name)} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95">Save</button>
+              </div>
+           </div>
+        </ModalWrapper>
+    );
+}
+
+// Tags that only some of the files carry are shown muted; they're left alone
+// unless removed.
+function TagEditorModal({ files, allTags, onClose, onConfirm, isProcessing }: any) {
+    const [added, setAdded] = useState<string[]>([]);
+    const [removed, setRemoved] = useState<string[]>([]);
+    const [input, setInput] = useState('');
+    const counts = useMemo(() => {
+      const map = new Map<string, number>();
+      for (const file of files) for (const tag of file.tags || []) map.set(tag, (map.get(tag) || 0) + 1);
+      return map;
+    }, [files]);
+    const shown = [...new Set([...counts.keys(), ...added])].filter(tag => !removed.includes(tag)).sort();
+    const suggestions = allTags.filter((tag: string) => !shown.includes(tag) && tag.includes(normalizeTag(input))).slice(0, 8);
+
+    const addTag = (raw: string) => {
+      const tag = normalizeTag(raw);
+      if (!tag) return;
+      setAdded(prev => prev.includes(tag) ? prev : [...prev, tag]);
+      setRemoved(prev => prev.filter(t => t !== tag));
+      setInput('');
+    };
+    const removeTag = (tag: string) => {
+      setAdded(prev => prev.filter(t => t !== tag));
+      if (counts.has(tag)) setRemoved(prev => [...prev, tag]);
+    };
+
+    return (
+        <ModalWrapper onClose={onClose}>
+           <div className="text-center">
+              <div className="w-16 h-16 sm:w-20 sm:h-20 bg-indigo-50 rounded-2xl sm:rounded-3xl flex items-center justify-center mb-6 mx-auto"><TagIcon className="w-8 h-8 sm:w-10 sm:h-10 text-indigo-600" /></div>
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-2 tracking-tight text-center">Tags</h2>
+              <p className="text-slate-500 text-xs mb-6 font-bold">{files.length === 1 ? files[0].name : `${files.length} items`}</p>
+              <div className="flex flex-wrap justify-center gap-1.5 mb-4 min-h-[1.75rem]">
+                 {shown.length === 0 && <span className="text-[11px] font-bold text-slate-300">No tags yet</span>}
+                 {shown.map(tag => <TagChip key={tag} tag={tag} muted={!added.includes(tag) && counts.get(tag)! < files.length} onRemove={() => removeTag(tag)} />)}
+              </div>
+              <form onSubmit={(e) => { e.preventDefault(); addTag(input); }} className="flex gap-2 mb-3">
+                 <input type="text" autoFocus placeholder="Add a tag" className="flex-1 bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 px-5 text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none" value={input} onChange={(e) => setInput(e.target.value)} />
+                 <button type="submit" disabled={!normalizeTag(input)} className="px-5 bg-slate-900 text-white rounded-xl sm:rounded-2xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30 active:scale-95">Add</button>
+              </form>
+              {suggestions.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-1.5 mb-6">
+                   {suggestions.map((tag: string) => <TagChip key={tag} tag={tag} muted onClick={() => addTag(tag)} />)}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3 sm:gap-4 mt-6">
+                 <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 <button onClick={() => onConfirm(added, removed)} disabled={isProcessing || (added.length === 0 && removed.length === 0)} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">Save</button>
+              </div>
+           </div>
+        </ModalWrapper>
+    );
+}
+
+const COLLECTION_TYPES: FileType[] = ['image', 'video', 'audio', 'document', 'note', 'other'];
+const COLLECTION_PERIODS = [0, 7, 30, 90, 365];
+
+function CollectionModal({ collection, allTags, onClose, onConfirm, onDelete }: any) {
+    const rules: CollectionRules = collection?.rules || {};
+    const [name, setName] = useState(collection?.name || '');
+    const [types, setTypes] = useState<FileType[]>(rules.types || []);
+    const [tags, setTags] = useState<string[]>(rules.tags || []);
+    const [favoritesOnly, setFavoritesOnly] = useState(!!rules.favoritesOnly);
+    const [withinDays, setWithinDays] = useState(rules.withinDays || 0);
+    const [tagInput, setTagInput] = useState('');
+    const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+    const addTag = () => {
+      const tag = normalizeTag(tagInput);
+      if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+      setTagInput('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim()) return;
+      const next: CollectionRules = {};
+      if (types.length) next.types = types;
+      if (tags.length) next.tags = tags;
+      if (favoritesOnly) next.favoritesOnly = true;
+      if (withinDays) next.withinDays = withinDays;
+      onConfirm(name.trim(), next);
+    };
+
+    const optionClass = (on: boolean) => `px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${on ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400 hover:text-slate-600'}`;
+    const labelClass = "block text-left text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2";
+    return (
+        <ModalWrapper onClose={onClose}>
+           <form onSubmit={handleSubmit} className="text-center">
+              <div className="w-16 h-16 sm:w-20 sm:h-20 bg-indigo-50 rounded-2xl sm:rounded-3xl flex items-center justify-center mb-6 mx-auto"><SparklesIcon className="w-8 h-8 sm:w-10 sm:h-10 text-indigo-600" /></div>
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-6 tracking-tight text-center">{collection ? 'Edit Collection' : 'New Smart Collection'}</h2>
+              <input type="text" autoFocus placeholder="Name" className="w-full bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 sm:py-4 px-5 sm:px-6 text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none mb-6" value={name} onChange={(e) => setName(e.target.value)} />
+
+              <span className={labelClass}>Type</span>
+              <div className="flex flex-wrap gap-2 mb-5">
+                 {COLLECTION_TYPES.map(type => <button key={type} type="button" onClick={() => setTypes(toggle(types, type))} className={optionClass(types.includes(type))}>{type}</button>)}
+              </div>
+
+              <span className={labelClass}>Tagged with all of</span>
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                 {tags.map(tag => <TagChip key={tag} tag={tag} onRemove={() => setTags(tags.filter(t => t !== tag))} />)}
+                 {allTags.filter((tag: string) => !tags.includes(tag)).slice(0, 8).map((tag: string) => <TagChip key={tag} tag={tag} muted onClick={() => setTags([...tags, tag])} />)}
+              </div>
+              <div className="flex gap-2 mb-5">
+                 <input type="text" placeholder="Another tag" className="flex-1 bg-slate-100 border-none rounded-xl py-2.5 px-4 text-xs font-bold focus:ring-2 focus:ring-indigo-500 outline-none" value={tagInput} onChange={(e) => setTagInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addTag(); } }} />
+                 <button type="button" onClick={addTag} disabled={!normalizeTag(tagInput)} className="px-4 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Add</button>
+              </div>
+
+              <span className={labelClass}>Added</span>
+              <div className="flex flex-wrap gap-2 mb-5">
+                 {COLLECTION_PERIODS.map(days => <button key={days} type="button" onClick={() => setWithinDays(days)} className={optionClass(withinDays === days)}>{days ? `${days} days` : 'Any time'}</button>)}
+              </div>
+
+              <label className="flex items-center gap-3 text-xs font-bold text-slate-600 mb-8 cursor-pointer">
+                 <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                 Favorites only
+              </label>
+
+              <div className={`grid gap-3 sm:gap-4 ${collection ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                 {collection && <button type="button" onClick={() => onDelete(collection)} className="bg-rose-50 text-rose-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Delete</button>}
+                 <button type="button" onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 <button type="submit" disabled={!name.trim()} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">Save</button>
+              </div>
+           </form>
+        </ModalWrapper>
+    );
+}
+
+function FolderModal({ folder, onClose, onConfirm }: any) {
+    const [name, setName] = useState(folder?.name || '');
+    const [kind, setKind] = useState<FolderKind>(folder?.kind || 'folder');
+    const isRoot = folder && folder.parentId === null;
+    return (
+        <ModalWrapper onClose={onClose}>
+           <form onSubmit={(e) => { e.preventDefault(); if (name.trim()) onConfirm(name.trim(), kind); }} className="text-center">
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-6 tracking-tight text-center">{folder ? 'Edit Folder' : 'New Folder'}</h2>
+              <input type="text" autoFocus placeholder="Name" className="w-full bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 sm:py-4 px-5 sm:px-6 text-sm font-bold focus:ring-2 focus:ring-indigo-500 outline-none mb-4" value={name} onChange={(e) => setName(e.target.value)} />
+              {!isRoot && (
+                <div className="grid grid-cols-2 gap-2 bg-slate-100 p-1 rounded-xl sm:rounded-2xl mb-6 sm:mb-8">
+                   {(['folder', 'album'] as FolderKind[]).map(option => (
+                     <button key={option} type="button" onClick={() => setKind(option)} className={`py-2.5 rounded-lg sm:rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${kind === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{option}</button>
+                   ))}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                 <button type="button" onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 <button type="submit" disabled={!name.trim()} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">Save</button>
+              </div>
+           </form>
+        </ModalWrapper>
+    );
+}
+
+function FolderPickerModal({ title, folders, rootFolder, initialId, isDisabled, onClose, onMove, onCopy, isProcessing }: any) {
+    const [targetId, setTargetId] = useState<string | null>(initialId && !isDisabled(folders.find((f: Folder) => f.id === initialId)) ? initialId : null);
+
+    const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+      const disabled = isDisabled(folder);
+      return (
+        <React.Fragment key={folder.id}>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => setTargetId(folder.id)}
+            className={`w-full flex items-center gap-3 pr-4 py-2.5 rounded-xl text-xs font-bold text-left transition-all disabled:opacity-30 ${targetId === folder.id ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+            style={{ paddingLeft: `${0.75 + depth}rem` }}
+          >
+            {React.cloneElement(folderIcon(folder), { className: "w-4 h-4 flex-shrink-0" })}
+            <span className="truncate">{folder.name}</span>
+          </button>
+          {getChildFolders(folders, folder.id).map(child => renderFolder(child, depth + 1))}
+        </React.Fragment>
+      );
+    };
+
+    return (
+        <ModalWrapper onClose={onClose}>
+           <div className="text-center">
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-6 tracking-tight text-center">{title}</h2>
+              <div className="bg-slate-50 rounded-xl sm:rounded-2xl p-2 mb-6 sm:mb-8 max-h-72 overflow-y-auto space-y-0.5">
+                 {rootFolder && renderFolder(rootFolder, 0)}
+              </div>
+              <div className={`grid gap-3 sm:gap-4 ${onCopy ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                 <button onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 {onCopy && <button onClick={() => onCopy(targetId)} disabled={!targetId || isProcessing} className="bg-slate-900 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">Copy</button>}
+                 <button onClick={() => onMove(targetId)} disabled={!targetId || isProcessing} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 disabled:opacity-50">Move</button>
+              </div>
+           </div>
+        </ModalWrapper>
+    );
+}
+
+function ChangePinModal({ onClose, onConfirm }: { onClose: () => void, onConfirm: (currentPin: string, newPin: string) => Promise<void> }) {
+    const [currentPin, setCurrentPin] = useState('');
+    const [newPin, setNewPin] = useState('');
+    const [confirmPin, setConfirmPin] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (newPin.length < 4) return setError('New PIN needs at least 4 digits.');
+        if (newPin !== confirmPin) return setError('New PINs do not match.');
+        setIsSaving(true);
+        try {
+            await onConfirm(currentPin, newPin);
+            onClose();
+        } catch (err) {
+            setError('Current PIN is incorrect.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const inputClass = "w-full bg-slate-100 border-none rounded-xl sm:rounded-2xl py-3 sm:py-4 text-center text-2xl tracking-[0.5em] font-black focus:ring-2 focus:ring-indigo-500 outline-none";
+    return (
+        <ModalWrapper onClose={onClose}>
+           <form onSubmit={handleSubmit} className="text-center">
+              <div className="w-16 h-16 sm:w-20 sm:h-20 bg-indigo-50 rounded-2xl sm:rounded-3xl flex items-center justify-center mb-6 sm:mb-8 mx-auto"><KeyIcon className="w-8 h-8 sm:w-10 sm:h-10 text-indigo-600" /></div>
+              <h2 className="text-xl sm:text-2xl font-brand font-black mb-3 tracking-tight text-center">Change PIN</h2>
+              <p className="text-slate-500 text-xs mb-6 leading-relaxed font-bold">Your files stay as they are. Older items are re-secured in the background.</p>
+              <div className="space-y-3 mb-6">
+                 <input type="password" placeholder="Current PIN" autoFocus className={inputClass} value={currentPin} onChange={(e) => setCurrentPin(e.target.value)} required />
+                 <input type="password" placeholder="New PIN" className={inputClass} value={newPin} onChange={(e) => setNewPin(e.target.value)} required />
+                 <input type="password" placeholder="Confirm" className={inputClass} value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)} required />
+              </div>
+              {error && <div className="text-rose-500 text-[10px] font-black uppercase text-center bg-rose-500/10 p-4 rounded-2xl mb-6">{error}</div>}
+              <div className="grid grid-cols-2 gap-3 sm:gap-4">
+                 <button type="button" onClick={onClose} className="bg-slate-100 text-slate-600 py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest active:scale-95">Cancel</button>
+                 <button disabled={isSaving} className="bg-indigo-600 text-white py-4 sm:py-5 rounded-xl sm:rounded-2xl font-black uppercase text-[9px] sm:text-[10px] tracking-widest shadow-xl active:scale-95 flex items-center justify-center">
+                    {isSaving ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : 'Save'}
+                 </button>
+              </div>
+           </form>
         </ModalWrapper>
     );
 }
@@ -0,0 +1,115 @@
+import { LoginAttempts } from '../types';
+import { getLoginAttempts, saveLoginAttempts, deleteLoginAttempts, getDeviceKey, saveDeviceKey } from './storageService';
+
+// Counters are mirrored here so clearing either store alone doesn't reset them
+const MIRROR_KEY = 'infinity_vault_attempts';
+const FREE_ATTEMPTS = 3; // Failures before the first lockout
+const BASE_LOCKOUT = 30 * 1000;
+const MAX_LOCKOUT = 60 * 60 * 1000;
+
+export const WIPE_OPTIONS = [5, 10, 20];
+
+export class LockedOutError extends Error {
+  constructor(public until: number) {
+    super('Too many failed attempts');
+    this.name = 'LockedOutError';
+  }
+}
+
+export interface AttemptState {
+  failures: number;
+  lockedUntil: number;
+}
+
+// Doubles with each failure past the free ones: 30s, 1m, 2m… up to an hour
+export const lockoutFor = (failures: number) =>
+  failures < FREE_ATTEMPTS ? 0 : Math.min(BASE_LOCKOUT * 2 ** (failures - FREE_ATTEMPTS), MAX_LOCKOUT);
+
+export const attemptsBeforeLockout = (failures: number) => Math.max(0, FREE_ATTEMPTS - failures);
+
+export const attemptsBeforeWipe = (failures: number, wipeAfter?: number) =>
+  wipeAfter ? Math.max(0, wipeAfter - failures) : undefined;
+
+let deviceKey: Promise<CryptoKey> | null = null;
+
+// Non-extractable, so a counter can't be re-signed with new values from outside
+function loadDeviceKey() {
+  deviceKey ??= (async () => {
+    const stored = await getDeviceKey();
+    if (stored) return stored;
+    const key = await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    return saveDeviceKey(key);
+  })().catch(err => {
+    deviceKey = null;
+    throw err;
+  });
+  return deviceKey;
+}
+
+const macInput = (id: string, state: AttemptState) => new TextEncoder().encode(`${id}|${state.failures}|${state.lockedUntil}`);
+
+function readMirror(): Record<string, AttemptState> {
+  try {
+    return JSON.parse(localStorage.getItem(MIRROR_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+}
+
+function writeMirror(id: string, state: AttemptState | null) {
+  const mirror = readMirror();
+  if (state) mirror[id] = state;
+  else delete mirror[id];
+  try {
+    localStorage.setItem(MIRROR_KEY, JSON.stringify(mirror));
+  } catch (e) {
+    console.warn('Attempt mirror not saved', e); // The stored record still counts
+  }
+}
+
+// The highest count any copy holds. A record whose MAC doesn't match was edited,
+// which is answered with the longest lockout, signed so that it runs out.
+export const getAttemptState = async (profileId: string): Promise<AttemptState> => {
+  const mirrored = readMirror()[profileId];
+  const state: AttemptState = { failures: Number(mirrored?.failures) || 0, lockedUntil: Number(mirrored?.lockedUntil) || 0 };
+  const record = await getLoginAttempts(profileId);
+  if (!record) return state;
+
+  const trusted = await crypto.subtle.verify('HMAC', await loadDeviceKey(), record.mac, macInput(profileId, record)).catch(() => false);
+  const failures = Math.max(state.failures, Number(record.failures) || 0);
+  if (!trusted) {
+    const penalty = { failures, lockedUntil: Date.now() + MAX_LOCKOUT };
+    await saveAttemptState(profileId, penalty);
+    return penalty;
+  }
+  return { failures, lockedUntil: Math.max(state.lockedUntil, record.lockedUntil) };
+};
+
+async function saveAttemptState(profileId: string, state: AttemptState) {
+  const mac = await crypto.subtle.sign('HMAC', await loadDeviceKey(), macInput(profileId, state));
+  const record: LoginAttempts = { id: profileId, ...state, mac };
+  writeMirror(profileId, state);
+  await saveLoginAttempts(record);
+}
+
+export const isLockedOut = (state: AttemptState) => state.lockedUntil > Date.now();
+
+// Counts the attempt as failed before the PIN is checked, so closing the tab
+// mid-check gains nothing, and starts the lockout it earns
+export const beginAttempt = async (profileId: string): Promise<AttemptState> => {
+  const current = await getAttemptState(profileId);
+  const failures = current.failures + 1;
+  const lockout = lockoutFor(failures);
+  const state = { failures, lockedUntil: lockout ? Date.now() + lockout : 0 };
+  await saveAttemptState(profileId, state);
+  return state;
+};
+
+export const clearAttempts = async (profileId: string): Promise<void> => {
+  writeMirror(profileId, null);
+  await deleteLoginAttempts(profileId);
+};
+
+// Puts back the count from before an attempt that turned out not to be a failure
+export const restoreAttempts = (profileId: string, state: AttemptState): Promise<void> =>
+  state.failures || state.lockedUntil ? saveAttemptState(profileId, state) : clearAttempts(profileId);
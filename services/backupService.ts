@@ -0,0 +1,327 @@
+import { BackupImportSummary, FileRecord, MigrationJob, SealedRecord, StoredChunk, StoredSearchEntry, StoredThumbnail, VaultBackup, VaultProfile } from '../types';
+import {
+  getVaultProfiles,
+  getFileIds,
+  getStoredFile,
+  getChunkIds,
+  getChunkRecord,
+  getMigrationJobs,
+  getFolderRecords,
+  getCollectionRecords,
+  getThumbnailRecordIds,
+  getThumbnail,
+  getSearchEntryIds,
+  getSearchEntry,
+  putBackupRecords
+} from './storageService';
+
+// .vault container layout (all integers little-endian):
+//   "IVLT" magic | u32 format version | record*
+//   record  = u8 kind | u32 payload length | payload
+//   payload = u32 json length | json | u32 blob count | (u32 blob length | blob bytes)*
+// Binary fields inside the JSON are replaced by { $bin: n } (ArrayBuffer) or
+// { $u8: n } (Uint8Array) references into the record's blob list.
+const MAGIC = [0x49, 0x56, 0x4c, 0x54];
+export const BACKUP_VERSION = 6; // 4 added folders, 5 smart collections, 6 thumbnails and search entries
+
+const RECORD_HEADER = 1;
+const RECORD_PROFILE = 2;
+const RECORD_FILE = 3;
+const RECORD_CHUNK = 4;
+const RECORD_JOB = 5;
+const RECORD_FOLDER = 6;
+const RECORD_COLLECTION = 7;
+const RECORD_THUMBNAIL = 8;
+const RECORD_SEARCH = 9;
+const RECORD_END = 0xff;
+
+// Import writes are grouped so a multi-GB restore doesn't open one transaction per chunk.
+const BATCH_BYTES = 32 * 1024 * 1024;
+const BATCH_RECORDS = 200;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function packValue(value: unknown, blobs: Uint8Array[]): unknown {
+  if (value instanceof ArrayBuffer) {
+    blobs.push(new Uint8Array(value));
+    return { $bin: blobs.length - 1 };
+  }
+  if (ArrayBuffer.isView(value)) {
+    blobs.push(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+    return { $u8: blobs.length - 1 };
+  }
+  if (Array.isArray(value)) return value.map(v => packValue(v, blobs));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) out[key] = packValue(v, blobs);
+    return out;
+  }
+  return value;
+}
+
+function unpackValue(value: any, blobs: Uint8Array[]): any {
+  if (Array.isArray(value)) return value.map(v => unpackValue(v, blobs));
+  if (value && typeof value === 'object') {
+    if (typeof value.$bin === 'number') return blobs[value.$bin].slice().buffer;
+    if (typeof value.$u8 === 'number') return blobs[value.$u8].slice();
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) out[key] = unpackValue(v, blobs);
+    return out;
+  }
+  return value;
+}
+
+function u32(n: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, n, true);
+  return bytes;
+}
+
+function readU32(bytes: Uint8Array, offset = 0): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, true);
+}
+
+// Frames a record as a list of parts so large blobs are enqueued without being copied.
+function encodeRecord(kind: number, value: unknown): Uint8Array[] {
+  const blobs: Uint8Array[] = [];
+  const json = encoder.encode(JSON.stringify(packValue(value, blobs)));
+  const payloadLength = 4 + json.byteLength + 4 + blobs.reduce((acc, b) => acc + 4 + b.byteLength, 0);
+
+  const parts: Uint8Array[] = [new Uint8Array([kind]), u32(payloadLength), u32(json.byteLength), json, u32(blobs.length)];
+  for (const blob of blobs) parts.push(u32(blob.byteLength), blob);
+  return parts;
+}
+
+function decodePayload(payload: Uint8Array): any {
+  const jsonLength = readU32(payload);
+  const json = decoder.decode(payload.subarray(4, 4 + jsonLength));
+  let offset = 4 + jsonLength;
+  const blobCount = readU32(payload, offset);
+  offset += 4;
+
+  const blobs: Uint8Array[] = [];
+  for (let i = 0; i < blobCount; i++) {
+    const length = readU32(payload, offset);
+    offset += 4;
+    blobs.push(payload.subarray(offset, offset + length));
+    offset += length;
+  }
+  return unpackValue(JSON.parse(json), blobs);
+}
+
+async function* backupParts(): AsyncGenerator<Uint8Array[]> {
+  yield [new Uint8Array(MAGIC), u32(BACKUP_VERSION)];
+  yield encodeRecord(RECORD_HEADER, { version: BACKUP_VERSION, exportedAt: Date.now() });
+
+  for (const profile of await getVaultProfiles()) {
+    yield encodeRecord(RECORD_PROFILE, profile);
+  }
+
+  // Unfinished migrations carry the sealed PIN that legacy records still need
+  for (const job of await getMigrationJobs()) {
+    yield encodeRecord(RECORD_JOB, job);
+  }
+
+  for (const folder of await getFolderRecords()) {
+    yield encodeRecord(RECORD_FOLDER, folder);
+  }
+
+  for (const collection of await getCollectionRecords()) {
+    yield encodeRecord(RECORD_COLLECTION, collection);
+  }
+
+  // Chunks are written before the files that reference them, so a partially
+  // restored backup never contains records pointing at missing chunks.
+  for (const id of await getChunkIds()) {
+    const chunk = await getChunkRecord(id);
+    if (chunk) yield encodeRecord(RECORD_CHUNK, chunk);
+  }
+
+  for (const id of await getFileIds()) {
+    const file = await getStoredFile(id);
+    if (file) yield encodeRecord(RECORD_FILE, file);
+  }
+
+  // Sealed like the files they belong to, so a restore needs no rebuild
+  for (const id of await getThumbnailRecordIds()) {
+    const thumbnail = await getThumbnail(id);
+    if (thumbnail) yield encodeRecord(RECORD_THUMBNAIL, thumbnail);
+  }
+
+  for (const id of await getSearchEntryIds()) {
+    const entry = await getSearchEntry(id);
+    if (entry) yield encodeRecord(RECORD_SEARCH, entry);
+  }
+
+  yield encodeRecord(RECORD_END, {});
+}
+
+// Streams the whole database as a .vault container, reading one record at a time.
+export const exportFullBackup = (): ReadableStream<Uint8Array> => {
+  const parts = backupParts();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await parts.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      for (const part of value) controller.enqueue(part);
+    },
+    async cancel() {
+      await parts.return(undefined);
+    }
+  });
+};
+
+function createByteReader(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  const buffered: Uint8Array[] = [];
+  let bufferedLength = 0;
+
+  const fill = async (length: number) => {
+    while (bufferedLength < length) {
+      const { done, value } = await reader.read();
+      if (done) return false;
+      buffered.push(value);
+      bufferedLength += value.byteLength;
+    }
+    return true;
+  };
+
+  const read = async (length: number): Promise<Uint8Array> => {
+    if (!(await fill(length))) throw new Error('Backup file is truncated.');
+    const out = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const head = buffered[0];
+      const take = Math.min(head.byteLength, length - offset);
+      out.set(head.subarray(0, take), offset);
+      offset += take;
+      if (take === head.byteLength) buffered.shift();
+      else buffered[0] = head.subarray(take);
+    }
+    bufferedLength -= length;
+    return out;
+  };
+
+  return { read, cancel: () => reader.cancel() };
+}
+
+async function importBinaryBackup(file: Blob): Promise<BackupImportSummary> {
+  const summary: BackupImportSummary = { profiles: 0, files: 0, chunks: 0, jobs: 0, folders: 0, collections: 0, thumbnails: 0, searchEntries: 0, skipped: 0 };
+  const reader = createByteReader(file.stream());
+  const emptyBatch = () => ({ profiles: [] as VaultProfile[], files: [] as FileRecord[], chunks: [] as StoredChunk[], jobs: [] as MigrationJob[], folders: [] as SealedRecord[], collections: [] as SealedRecord[], thumbnails: [] as StoredThumbnail[], searchEntries: [] as StoredSearchEntry[] });
+  const batchSize = () => batch.profiles.length + batch.files.length + batch.chunks.length + batch.jobs.length + batch.folders.length + batch.collections.length + batch.thumbnails.length + batch.searchEntries.length;
+  let batch = emptyBatch();
+  let batchBytes = 0;
+
+  const flush = async () => {
+    if (batchSize() === 0) return;
+    await putBackupRecords(batch);
+    summary.profiles += batch.profiles.length;
+    summary.files += batch.files.length;
+    summary.chunks += batch.chunks.length;
+    summary.jobs += batch.jobs.length;
+    summary.folders += batch.folders.length;
+    summary.collections += batch.collections.length;
+    summary.thumbnails += batch.thumbnails.length;
+    summary.searchEntries += batch.searchEntries.length;
+    batch = emptyBatch();
+    batchBytes = 0;
+  };
+
+  try {
+    const preamble = await reader.read(8);
+    const version = readU32(preamble, 4);
+    if (version > BACKUP_VERSION) throw new Error(`Unsupported backup version ${version}.`);
+
+    while (true) {
+      const frame = await reader.read(5);
+      const kind = frame[0];
+      const payloadLength = readU32(frame, 1);
+      const payload = await reader.read(payloadLength);
+
+      if (kind === RECORD_END) break;
+      const value = decodePayload(payload);
+
+      if (kind === RECORD_PROFILE) batch.profiles.push(value);
+      else if (kind === RECORD_FILE) batch.files.push(value);
+      else if (kind === RECORD_CHUNK) batch.chunks.push(value);
+      else if (kind === RECORD_JOB) batch.jobs.push(value);
+      else if (kind === RECORD_FOLDER) batch.folders.push(value);
+      else if (kind === RECORD_COLLECTION) batch.collections.push(value);
+      else if (kind === RECORD_THUMBNAIL) batch.thumbnails.push(value);
+      else if (kind === RECORD_SEARCH) batch.searchEntries.push(value);
+      else if (kind !== RECORD_HEADER) summary.skipped++;
+
+      batchBytes += payloadLength;
+      if (batchBytes >= BATCH_BYTES || batchSize() >= BATCH_RECORDS) await flush();
+    }
+    await flush();
+  } finally {
+    await reader.cancel();
+  }
+  return summary;
+}
+
+// JSON.stringify turned Uint8Arrays into index maps ({"0": 12, "1": 7, ...}) and
+// ArrayBuffers into {}. Index maps can be rebuilt; empty objects are lost data.
+function reviveBytes(value: any): Uint8Array | undefined {
+  if (value instanceof Uint8Array) return value;
+  if (Array.isArray(value)) return new Uint8Array(value);
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (keys.length === 0) return undefined;
+    return Uint8Array.from(keys.sort((a, b) => Number(a) - Number(b)).map(k => value[k]));
+  }
+  return undefined;
+}
+
+function reviveBuffer(value: any): ArrayBuffer | undefined {
+  return reviveBytes(value)?.slice().buffer;
+}
+
+async function importLegacyBackup(backup: VaultBackup): Promise<BackupImportSummary> {
+  const summary: BackupImportSummary = { profiles: 0, files: 0, chunks: 0, jobs: 0, folders: 0, collections: 0, thumbnails: 0, searchEntries: 0, skipped: 0 };
+  const profiles: VaultProfile[] = [];
+  const files: FileRecord[] = [];
+
+  for (const p of backup.profiles || []) {
+    const encryptedData = reviveBuffer(p.verification?.encryptedData);
+    const iv = reviveBytes(p.verification?.iv);
+    const salt = reviveBytes(p.verification?.salt);
+    if (!encryptedData || !iv || !salt) {
+      summary.skipped++;
+      continue;
+    }
+    profiles.push({ ...p, verification: { encryptedData, iv, salt } });
+  }
+
+  for (const f of backup.files || []) {
+    const iv = reviveBytes(f.iv);
+    const salt = reviveBytes(f.salt);
+    // Legacy exports never contained chunk data, so chunked records can't be restored.
+    const encryptedData = f.isChunked ? undefined : reviveBuffer(f.encryptedData);
+    if (!iv || !salt || !encryptedData) {
+      summary.skipped++;
+      continue;
+    }
+    files.push({ ...f, iv, salt, encryptedData });
+  }
+
+  await putBackupRecords({ profiles, files, chunks: [], jobs: [], folders: [], collections: [], thumbnails: [], searchEntries: [] });
+  summary.profiles = profiles.length;
+  summary.files = files.length;
+  return summary;
+}
+
+export const importFullBackup = async (file: Blob): Promise<BackupImportSummary> => {
+  const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+  const isBinary = MAGIC.every((byte, i) => head[i] === byte);
+  if (isBinary) return importBinaryBackup(file);
+
+  const backup: VaultBackup = JSON.parse(await file.text());
+  return importLegacyBackup(backup);
+};
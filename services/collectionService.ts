@@ -0,0 +1,70 @@
+import { CollectionRules, SmartCollection, StoredFile, VaultKeys } from '../types';
+import { patchFile, saveCollection } from './storageService';
+
+const MAX_TAG_LENGTH = 32;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Tags are compared case-insensitively and can't contain spaces, so "Client X"
+// and "client-x" are the same tag.
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+// Every tag in use, most used first
+export const collectTags = (files: StoredFile[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    for (const tag of file.tags || []) counts.set(tag, (counts.get(tag) || 0) + 1);
+  }
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+export const matchesRules = (file: StoredFile, rules: CollectionRules, now = Date.now()) => {
+  if (rules.types?.length && !rules.types.includes(file.type)) return false;
+  if (rules.favoritesOnly && !file.isFavorite) return false;
+  if (rules.withinDays && file.createdAt < now - rules.withinDays * DAY) return false;
+  if (rules.tags?.length && !rules.tags.every(tag => file.tags?.includes(tag))) return false;
+  return true;
+};
+
+export const describeRules = (rules: CollectionRules): string => {
+  const parts: string[] = [];
+  if (rules.favoritesOnly) parts.push('favorites');
+  if (rules.types?.length) parts.push(rules.types.join(' or '));
+  if (rules.tags?.length) parts.push(`tagged ${rules.tags.join(', ')}`);
+  if (rules.withinDays) parts.push(`last ${rules.withinDays} days`);
+  return parts.join(' · ') || 'everything';
+};
+
+export const createCollection = async (vaultId: string, name: string, rules: CollectionRules, keys: VaultKeys): Promise<SmartCollection> => {
+  const collection: SmartCollection = { id: crypto.randomUUID(), vaultId, name, rules, createdAt: Date.now() };
+  await saveCollection(collection, keys);
+  return collection;
+};
+
+export const updateCollection = async (collection: SmartCollection, changes: Partial<Pick<SmartCollection, 'name' | 'rules'>>, keys: VaultKeys): Promise<SmartCollection> => {
+  const updated = { ...collection, ...changes };
+  await saveCollection(updated, keys);
+  return updated;
+};
+
+// Adds and removes tags across files. Only files whose tags change are written;
+// resolves to the updated files.
+export const applyTags = async (files: StoredFile[], add: string[], remove: string[], keys: VaultKeys): Promise<StoredFile[]> => {
+  const updated: StoredFile[] = [];
+  for (const file of files) {
+    const current = file.tags || [];
+    const tags = [...new Set([...current.filter(t => !remove.includes(t)), ...add])].sort();
+    if (tags.join(' ') === [...current].sort().join(' ')) continue;
+    if (await patchFile(file.id, { tags }, keys)) updated.push({ ...file, tags });
+  }
+  return updated;
+};
+
+export const setFavorite = async (files: StoredFile[], isFavorite: boolean, keys: VaultKeys): Promise<StoredFile[]> => {
+  const updated: StoredFile[] = [];
+  for (const file of files) {
+    if (!!file.isFavorite === isFavorite) continue;
+    if (await patchFile(file.id, { isFavorite }, keys)) updated.push({ ...file, isFavorite });
+  }
+  return updated;
+};
@@ -1,17 +1,81 @@
+import { KeyScheme, SealedBox, StoredFile, VaultKeys, WrappedKey } from '../types';
 
 const ITERATIONS = 100000;
 const KEY_LEN = 256;
+const MASTER_KEY_BYTES = 32;
+const FILE_KEY_INFO = new TextEncoder().encode('infinity-vault/file-key/v1');
+const METADATA_KEY_INFO = new TextEncoder().encode('infinity-vault/metadata/v1');
+const THUMBNAIL_KEY_INFO = new TextEncoder().encode('infinity-vault/thumbnail/v1');
+const SHARED_CHUNK_KEY_INFO = new TextEncoder().encode('infinity-vault/shared-chunk/v1');
+const CONTENT_HASH_KEY_INFO = new TextEncoder().encode('infinity-vault/content-hash/v1');
+const SEARCH_KEY_INFO = new TextEncoder().encode('infinity-vault/search/v1');
+const FILE_KEY_CACHE_LIMIT = 512;
 
-async function deriveKey(pin: string, salt: Uint8Array) {
+// Version of the associated data bound into each chunk. Records without a
+// chunkFormat were chunked before binding and decrypt without it.
+export const CHUNK_FORMAT = 1;
+
+// Chunks that can be shared between files. They're encrypted under one vault-wide
+// key and bound to their content hash instead of a file; the sealed list of hashes
+// in each file record keeps them in order.
+export const SHARED_CHUNK_FORMAT = 2;
+
+// Plaintext bytes per chunk. Every chunk but the last is exactly this size, which
+// lets readers map a byte range to the chunks that cover it.
+export const CHUNK_SIZE = 10 * 1024 * 1024;
+
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+// Where a chunk belongs; authenticated with the chunk so it can't be reordered,
+// dropped, duplicated or moved to another file.
+export interface ChunkBinding {
+  fileId: string;
+  index: number;
+  total: number;
+  format: number;
+  hash?: string; // Shared chunks only
+}
+
+export function chunkBinding(file: Pick<StoredFile, 'id' | 'chunkIds' | 'chunkFormat' | 'chunkHashes'>, index: number): ChunkBinding | undefined {
+  if (!file.chunkFormat) return undefined;
+  const binding: ChunkBinding = { fileId: file.id, index, total: file.chunkIds?.length ?? 0, format: file.chunkFormat };
+  if (file.chunkFormat >= SHARED_CHUNK_FORMAT) binding.hash = file.chunkHashes?.[index];
+  return binding;
+}
+
+// Shared chunks are bound to their hash only, and chunkIds/chunkIvs are clear
+// fields, so entries dropped from their end would go unnoticed. The sealed hash
+// list fixes how many chunks the file has.
+export function checkChunkList(file: Pick<StoredFile, 'chunkIds' | 'chunkIvs' | 'chunkFormat' | 'chunkHashes'>) {
+  if (!file.chunkFormat || file.chunkFormat < SHARED_CHUNK_FORMAT) return;
+  const total = file.chunkHashes?.length ?? 0;
+  if (file.chunkIds?.length !== total || file.chunkIvs?.length !== total) {
+    throw new IntegrityError('Integrity check failed for the chunk list: missing, reordered or modified data.');
+  }
+}
+
+function chunkAad(binding: ChunkBinding) {
+  if (binding.format >= SHARED_CHUNK_FORMAT) return new TextEncoder().encode(`infinity-chunk/v${binding.format}|${binding.hash}`);
+  return new TextEncoder().encode(`infinity-chunk/v${binding.format}|${binding.fileId}|${binding.index}|${binding.total}`);
+}
+
+async function importPin(pin: string) {
   const encoder = new TextEncoder();
-  const baseKey = await crypto.subtle.importKey(
+  return crypto.subtle.importKey(
     'raw',
     encoder.encode(pin),
     'PBKDF2',
     false,
     ['deriveKey']
   );
+}
 
+async function deriveKey(pinKey: CryptoKey, salt: Uint8Array, usages: KeyUsage[] = ['encrypt', 'decrypt']) {
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
@@ -19,10 +83,10 @@ async function deriveKey(pin: string, salt: Uint8Array) {
       iterations: ITERATIONS,
       hash: 'SHA-256',
     },
-    baseKey,
+    pinKey,
     { name: 'AES-GCM', length: KEY_LEN },
     false,
-    ['encrypt', 'decrypt']
+    usages
   );
 }
 
@@ -36,12 +100,228 @@ async function decompress(data: ArrayBuffer): Promise<ArrayBuffer> {
   return await new Response(stream).arrayBuffer();
 }
 
-export async function encryptFile(data: ArrayBuffer, pin: string, skipCompression: boolean = false) {
+// Generates a random master key and wraps it under a PIN-derived key-encryption key.
+// The raw key bytes only exist for the duration of this call.
+export async function createMasterKey(pin: string): Promise<{ keyWrap: WrappedKey, keys: VaultKeys }> {
+  const pinKey = await importPin(pin);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const kek = await deriveKey(pinKey, salt, ['encrypt']);
+
+  const raw = crypto.getRandomValues(new Uint8Array(MASTER_KEY_BYTES));
+  try {
+    const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, kek, raw);
+    const masterKey = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey', 'deriveBits']);
+    return { keyWrap: { wrappedKey, iv, salt }, keys: { masterKey, pinKey } };
+  } finally {
+    raw.fill(0);
+  }
+}
+
+export async function unlockVault(pin: string, keyWrap: WrappedKey): Promise<VaultKeys> {
+  const pinKey = await importPin(pin);
+  const kek = await deriveKey(pinKey, keyWrap.salt, ['unwrapKey']);
+  try {
+    const masterKey = await crypto.subtle.unwrapKey(
+      'raw',
+      keyWrap.wrappedKey,
+      kek,
+      { name: 'AES-GCM', iv: keyWrap.iv },
+      'HKDF',
+      false,
+      ['deriveKey', 'deriveBits']
+    );
+    return { masterKey, pinKey };
+  } catch (e) {
+    throw new Error('Verification failed');
+  }
+}
+
+// Re-wraps the same master key under a new PIN. File data is untouched.
+export async function rewrapMasterKey(currentPin: string, newPin: string, keyWrap: WrappedKey): Promise<WrappedKey> {
+  const currentKek = await deriveKey(await importPin(currentPin), keyWrap.salt, ['decrypt']);
+  let raw: Uint8Array;
+  try {
+    raw = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: keyWrap.iv }, currentKek, keyWrap.wrappedKey));
+  } catch (e) {
+    throw new Error('Verification failed');
+  }
+
+  try {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const newKek = await deriveKey(await importPin(newPin), salt, ['encrypt']);
+    const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, newKek, raw);
+    return { wrappedKey, iv, salt };
+  } finally {
+    raw.fill(0);
+  }
+}
+
+// Seals a PIN under the master key so records still bound to it stay readable
+// after the profile's PIN has changed.
+export async function sealPin(pin: string, keys: VaultKeys) {
+  const { encryptedData, iv, salt } = await encryptFile(new TextEncoder().encode(pin).buffer, keys, true);
+  return { encryptedData, iv, salt };
+}
+
+export async function openSealedPin(sealed: { encryptedData: ArrayBuffer, iv: Uint8Array, salt: Uint8Array }, keys: VaultKeys): Promise<CryptoKey> {
+  const pin = await decryptFile(sealed.encryptedData, keys, sealed.iv, sealed.salt, false, 'master');
+  return importPin(new TextDecoder().decode(pin));
+}
+
+export async function createVerification(pin: string) {
+  const pinKey = await importPin(pin);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(pinKey, salt, ['encrypt']);
+  const encryptedData = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode('VERIFIED'));
+  return { encryptedData, iv, salt };
+}
+
+export async function verifyPin(pin: string, verification: { encryptedData: ArrayBuffer, iv: Uint8Array, salt: Uint8Array }) {
+  try {
+    const key = await deriveKey(await importPin(pin), verification.salt, ['decrypt']);
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: verification.iv }, key, verification.encryptedData);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Derived data keys are cached per unlocked vault, so every chunk and thumbnail
+// of a file reuses one HKDF (or, for legacy records, one PBKDF2) derivation.
+const fileKeyCache = new WeakMap<VaultKeys, Map<string, Promise<CryptoKey>>>();
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function getCachedKey(keys: VaultKeys, cacheKey: string, derive: () => Promise<CryptoKey>): Promise<CryptoKey> {
+  let cache = fileKeyCache.get(keys);
+  if (!cache) {
+    cache = new Map();
+    fileKeyCache.set(keys, cache);
+  }
+
+  let key = cache.get(cacheKey);
+  if (!key) {
+    key = derive();
+    key.catch(() => cache!.delete(cacheKey));
+    if (cache.size >= FILE_KEY_CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+    cache.set(cacheKey, key);
+  }
+  return key;
+}
+
+function deriveMasterSubkey(keys: VaultKeys, salt: Uint8Array, info: Uint8Array) {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    keys.masterKey,
+    { name: 'AES-GCM', length: KEY_LEN },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Records without a scheme predate master keys and are bound to the PIN.
+function getFileKey(keys: VaultKeys, salt: Uint8Array, scheme: KeyScheme = 'pin'): Promise<CryptoKey> {
+  return getCachedKey(keys, `${scheme}:${toHex(salt)}`, () => scheme === 'master'
+    ? deriveMasterSubkey(keys, salt, FILE_KEY_INFO)
+    : deriveKey(keys.pinKey, salt));
+}
+
+function getChunkKey(keys: VaultKeys, salt: Uint8Array, scheme?: KeyScheme, binding?: ChunkBinding): Promise<CryptoKey> {
+  if (binding && binding.format >= SHARED_CHUNK_FORMAT) {
+    return getCachedKey(keys, 'shared-chunk', () => deriveMasterSubkey(keys, new Uint8Array(0), SHARED_CHUNK_KEY_INFO));
+  }
+  return getFileKey(keys, salt, scheme);
+}
+
+// HMAC-SHA-256 under a key derived from the master key, so equal content is only
+// recognisable inside the vault that stored it.
+export async function hashContent(data: BufferSource, keys: VaultKeys): Promise<string> {
+  const key = await getCachedKey(keys, 'content-hash', () => crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: CONTENT_HASH_KEY_INFO },
+    keys.masterKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  ));
+  return toHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, data)));
+}
+
+// Metadata envelopes are bound to their record ID, so they can't be swapped between records.
+export async function sealMetadata(meta: object, keys: VaultKeys, recordId: string): Promise<SealedBox> {
+  const key = await getCachedKey(keys, 'metadata', () => deriveMasterSubkey(keys, new Uint8Array(0), METADATA_KEY_INFO));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encryptedData = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(recordId) },
+    key,
+    new TextEncoder().encode(JSON.stringify(meta))
+  );
+  return { encryptedData, iv };
+}
+
+export async function openMetadata<T>(sealed: SealedBox, keys: VaultKeys, recordId: string): Promise<T> {
+  const key = await getCachedKey(keys, 'metadata', () => deriveMasterSubkey(keys, new Uint8Array(0), METADATA_KEY_INFO));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: new TextEncoder().encode(recordId) },
+    key,
+    sealed.encryptedData
+  );
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+// Thumbnails have their own subkey and are bound to their file ID like metadata.
+export async function sealThumbnail(data: ArrayBuffer, keys: VaultKeys, fileId: string): Promise<SealedBox> {
+  const key = await getCachedKey(keys, 'thumbnail', () => deriveMasterSubkey(keys, new Uint8Array(0), THUMBNAIL_KEY_INFO));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encryptedData = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(fileId) },
+    key,
+    data
+  );
+  return { encryptedData, iv };
+}
+
+export async function openThumbnail(sealed: SealedBox, keys: VaultKeys, fileId: string): Promise<ArrayBuffer> {
+  const key = await getCachedKey(keys, 'thumbnail', () => deriveMasterSubkey(keys, new Uint8Array(0), THUMBNAIL_KEY_INFO));
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: new TextEncoder().encode(fileId) },
+    key,
+    sealed.encryptedData
+  );
+}
+
+// Search entries hold extracted text, so they get their own subkey and are bound to their file ID too.
+export async function sealSearchEntry(entry: object, keys: VaultKeys, fileId: string): Promise<SealedBox> {
+  const key = await getCachedKey(keys, 'search', () => deriveMasterSubkey(keys, new Uint8Array(0), SEARCH_KEY_INFO));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encryptedData = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(fileId) },
+    key,
+    new TextEncoder().encode(JSON.stringify(entry))
+  );
+  return { encryptedData, iv };
+}
+
+export async function openSearchEntry<T>(sealed: SealedBox, keys: VaultKeys, fileId: string): Promise<T> {
+  const key = await getCachedKey(keys, 'search', () => deriveMasterSubkey(keys, new Uint8Array(0), SEARCH_KEY_INFO));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv, additionalData: new TextEncoder().encode(fileId) },
+    key,
+    sealed.encryptedData
+  );
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+export async function encryptFile(data: ArrayBuffer, keys: VaultKeys, skipCompression: boolean = false) {
   const isCompressed = !skipCompression;
   const processedData = isCompressed ? await compress(data) : data;
   const salt = crypto.getRandomValues(new Uint8Array(16));
   const iv = crypto.getRandomValues(new Uint8Array(12));
-  const key = await deriveKey(pin, salt);
+  const key = await getFileKey(keys, salt, 'master');
 
   const encryptedData = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv },
@@ -49,23 +329,23 @@ export async function encryptFile(data: ArrayBuffer, pin: string, skipCompressio
     processedData
   );
 
-  return { encryptedData, iv, salt, compressedSize: encryptedData.byteLength, isCompressed };
+  return { encryptedData, iv, salt, compressedSize: encryptedData.byteLength, isCompressed, keyScheme: 'master' as KeyScheme };
 }
 
-export async function encryptChunk(data: ArrayBuffer, pin: string, salt: Uint8Array) {
+export async function encryptChunk(data: ArrayBuffer, keys: VaultKeys, salt: Uint8Array, binding: ChunkBinding) {
   const iv = crypto.getRandomValues(new Uint8Array(12));
-  const key = await deriveKey(pin, salt);
+  const key = await getChunkKey(keys, salt, 'master', binding);
   const encryptedData = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
+    { name: 'AES-GCM', iv, additionalData: chunkAad(binding) },
     key,
     data
   );
   return { encryptedData, iv };
 }
 
-export async function decryptFile(encryptedData: ArrayBuffer, pin: string, iv: Uint8Array, salt: Uint8Array, isCompressed: boolean = true) {
+export async function decryptFile(encryptedData: ArrayBuffer, keys: VaultKeys, iv: Uint8Array, salt: Uint8Array, isCompressed: boolean = true, scheme?: KeyScheme) {
   try {
-    const key = await deriveKey(pin, salt);
+    const key = await getFileKey(keys, salt, scheme);
     const decrypted = await crypto.subtle.decrypt(
       { name: 'AES-GCM', iv },
       key,
@@ -77,11 +357,16 @@ export async function decryptFile(encryptedData: ArrayBuffer, pin: string, iv: U
   }
 }
 
-export async function decryptChunk(encryptedData: ArrayBuffer, pin: string, iv: Uint8Array, salt: Uint8Array) {
-  const key = await deriveKey(pin, salt);
-  return await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    key,
-    encryptedData
-  );
+export async function decryptChunk(encryptedData: ArrayBuffer, keys: VaultKeys, iv: Uint8Array, salt: Uint8Array, scheme?: KeyScheme, binding?: ChunkBinding) {
+  const key = await getChunkKey(keys, salt, scheme, binding);
+  try {
+    return await crypto.subtle.decrypt(
+      binding ? { name: 'AES-GCM', iv, additionalData: chunkAad(binding) } : { name: 'AES-GCM', iv },
+      key,
+      encryptedData
+    );
+  } catch (e) {
+    const where = binding ? `chunk ${binding.index + 1}/${binding.total}` : 'chunk';
+    throw new IntegrityError(`Integrity check failed for ${where}: missing, reordered or modified data.`);
+  }
 }
@@ -0,0 +1,43 @@
+import { VaultKeys } from '../types';
+import { encryptFile, decryptFile, encryptChunk, decryptChunk } from './cryptoService';
+
+export type CryptoOp = 'encryptFile' | 'decryptFile' | 'encryptChunk' | 'decryptChunk';
+
+// args are the operation's parameters without `keys`, which is registered once
+// per vault so cryptoService's derived-key cache (keyed by the VaultKeys object)
+// is reused across tasks.
+export type CryptoWorkerRequest =
+  | { type: 'register', keysId: number, keys: VaultKeys }
+  | { type: 'run', id: number, op: CryptoOp, keysId: number, args: any[] };
+
+export type CryptoWorkerResponse =
+  | { ready: true }
+  | { id: number, result: any }
+  | { id: number, error: { name: string, message: string } };
+
+const ops = { encryptFile, decryptFile, encryptChunk, decryptChunk };
+const registered = new Map<number, VaultKeys>();
+
+const run = async (op: CryptoOp, keys: VaultKeys, [data, ...rest]: any[]) => {
+  return (ops[op] as (...args: any[]) => Promise<any>)(data, keys, ...rest);
+};
+
+self.onmessage = async (e: MessageEvent<CryptoWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'register') {
+    registered.set(msg.keysId, msg.keys);
+    return;
+  }
+
+  const keys = registered.get(msg.keysId);
+  try {
+    if (!keys) throw new Error('Vault keys are not available in this worker.');
+    const result = await run(msg.op, keys, msg.args);
+    const buffer = result instanceof ArrayBuffer ? result : result.encryptedData;
+    self.postMessage({ id: msg.id, result } as CryptoWorkerResponse, { transfer: [buffer] });
+  } catch (err: any) {
+    self.postMessage({ id: msg.id, error: { name: err?.name || 'Error', message: err?.message || String(err) } } as CryptoWorkerResponse);
+  }
+};
+
+self.postMessage({ ready: true } as CryptoWorkerResponse);
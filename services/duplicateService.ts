@@ -0,0 +1,139 @@
+import { DuplicateCluster, StoredFile, VaultKeys } from '../types';
+import { SHARED_CHUNK_FORMAT, hashContent } from './cryptoService';
+import { patchFile } from './storageService';
+import { createDecryptStream, readFileBlob, revokeObjectUrl } from './streamService';
+import { loadThumbnailUrl } from './thumbnailService';
+
+const HASH_WIDTH = 9; // dHash compares each pixel of a 9x8 greyscale image with its right neighbour
+const HASH_HEIGHT = 8;
+const SIMILAR_DISTANCE = 6; // Differing bits, out of 64, for images to count as look-alikes
+
+interface ScanOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  onFile?: (id: string, patch: Partial<StoredFile>) => void;
+}
+
+// Same definition as at upload: a whole file's hash covers its content, a chunked
+// file's covers the hashes of its chunks. Files with shared chunks already carry those.
+async function computeContentHash(file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<string> {
+  if (!file.isChunked) {
+    return hashContent(await (await readFileBlob(file, keys, signal)).arrayBuffer(), keys);
+  }
+  let chunkHashes = file.chunkFormat && file.chunkFormat >= SHARED_CHUNK_FORMAT ? file.chunkHashes : undefined;
+  if (!chunkHashes) {
+    chunkHashes = [];
+    const reader = createDecryptStream(file, keys, signal).getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      chunkHashes.push(await hashContent(result.value, keys));
+    }
+  }
+  return hashContent(new TextEncoder().encode(chunkHashes.join('')), keys);
+}
+
+// Difference hash of the thumbnail, which is generated for images that lack one
+async function computePerceptualHash(file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<string | null> {
+  const url = await loadThumbnailUrl(file, keys, signal);
+  if (!url) return null;
+  try {
+    const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const grey = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) byte = (byte << 1) | (grey(x, y) < grey(x + 1, y) ? 1 : 0);
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } finally {
+    revokeObjectUrl(url);
+  }
+}
+
+function popcount(n: number) {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+export const hashDistance = (a: string, b: string) =>
+  popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+  popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+
+const extraSize = (files: StoredFile[]) => files.slice(1).reduce((acc, f) => acc + f.compressedSize, 0);
+
+// Exact copies keep the oldest first; look-alikes keep the largest first, as the
+// most likely original. Each image with copies only takes part in look-alike
+// matching once.
+export const clusterDuplicates = (files: StoredFile[]): DuplicateCluster[] => {
+  const clusters: DuplicateCluster[] = [];
+  const byContent = new Map<string, StoredFile[]>();
+  for (const file of files) {
+    if (file.contentHash) byContent.set(file.contentHash, [...(byContent.get(file.contentHash) || []), file]);
+  }
+  for (const group of byContent.values()) {
+    if (group.length < 2) continue;
+    group.sort((a, b) => a.createdAt - b.createdAt);
+    clusters.push({ kind: 'exact', files: group, extraSize: extraSize(group) });
+  }
+
+  const images = files.filter(f => f.perceptualHash && (!f.contentHash || byContent.get(f.contentHash)![0] === f));
+  const parent = images.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (hashDistance(images[i].perceptualHash!, images[j].perceptualHash!) <= SIMILAR_DISTANCE) parent[find(j)] = find(i);
+    }
+  }
+  const similar = new Map<number, StoredFile[]>();
+  images.forEach((file, i) => similar.set(find(i), [...(similar.get(find(i)) || []), file]));
+  for (const group of similar.values()) {
+    if (group.length < 2) continue;
+    group.sort((a, b) => b.size - a.size || a.createdAt - b.createdAt);
+    clusters.push({ kind: 'similar', files: group, extraSize: extraSize(group) });
+  }
+
+  return clusters.sort((a, b) => b.extraSize - a.extraSize);
+};
+
+// Hashes missing from older files are computed once and saved with the file, so
+// later scans only read new files. Files that can't be read are left out.
+export const findDuplicates = async (files: StoredFile[], keys: VaultKeys, { signal, onProgress, onFile }: ScanOptions = {}): Promise<DuplicateCluster[]> => {
+  const targets = files.filter(f => !f.contentHash || (f.type === 'image' && !f.perceptualHash));
+  const hashed = new Map<string, Partial<StoredFile>>();
+
+  for (let i = 0; i < targets.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i, targets.length);
+    const file = targets[i];
+    const patch: Partial<StoredFile> = {};
+    try {
+      if (!file.contentHash) patch.contentHash = await computeContentHash(file, keys, signal);
+      if (file.type === 'image' && !file.perceptualHash) {
+        const perceptualHash = await computePerceptualHash(file, keys, signal);
+        if (perceptualHash) patch.perceptualHash = perceptualHash;
+      }
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn(`Could not hash ${file.name}`, err);
+    }
+    if (Object.keys(patch).length > 0 && await patchFile(file.id, patch, keys)) {
+      hashed.set(file.id, patch);
+      onFile?.(file.id, patch);
+    }
+  }
+  onProgress?.(targets.length, targets.length);
+
+  return clusterDuplicates(files.map(f => hashed.has(f.id) ? { ...f, ...hashed.get(f.id) } : f));
+};
@@ -0,0 +1,181 @@
+import { Folder, FolderKind, StoredFile, VaultKeys } from '../types';
+import { CHUNK_FORMAT, SHARED_CHUNK_FORMAT, sealThumbnail, openThumbnail } from './cryptoService';
+import { encryptChunk } from './workerCryptoService';
+import {
+  getFolders,
+  saveFolder,
+  deleteFolderRecord,
+  patchFile,
+  saveFile,
+  getFilePayload,
+  saveChunk,
+  deleteChunks,
+  retainChunks,
+  getThumbnail,
+  saveThumbnail
+} from './storageService';
+import { createDecryptStream } from './streamService';
+import { copySearchEntry } from './searchService';
+
+export const ROOT_FOLDER_NAME = 'My Vault';
+
+interface CopyOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export const getRootFolder = (folders: Folder[]) => folders.find(f => f.parentId === null);
+
+export const getChildFolders = (folders: Folder[], parentId: string) =>
+  folders.filter(f => f.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name));
+
+// Root first, ending with the folder itself. Used for breadcrumbs.
+export const folderPath = (folders: Folder[], id: string | null): Folder[] => {
+  const path: Folder[] = [];
+  let current = folders.find(f => f.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = folders.find(f => f.id === current!.parentId);
+  }
+  return path;
+};
+
+export const isDescendant = (folders: Folder[], id: string, ancestorId: string) =>
+  folderPath(folders, id).some(f => f.id === ancestorId);
+
+// Every vault has one root folder. Vaults created before folders get one on their
+// first unlock, and files outside any known folder (older files, or ones whose
+// folder was lost) are moved into it. Folders whose parent is gone are re-attached
+// to the root the same way.
+export const loadFolderTree = async (vaultId: string, keys: VaultKeys, files: StoredFile[]): Promise<{ folders: Folder[], files: StoredFile[] }> => {
+  const folders = await getFolders(vaultId, keys);
+  let root = getRootFolder(folders);
+  if (!root) {
+    root = { id: crypto.randomUUID(), vaultId, name: ROOT_FOLDER_NAME, kind: 'folder', parentId: null, createdAt: Date.now() };
+    await saveFolder(root, keys);
+    folders.push(root);
+  }
+
+  const known = new Set(folders.map(f => f.id));
+  for (const folder of folders) {
+    if (folder === root || (folder.parentId && known.has(folder.parentId) && !isDescendant(folders, folder.parentId, folder.id))) continue;
+    folder.parentId = root.id;
+    await saveFolder(folder, keys);
+  }
+
+  const updated: StoredFile[] = [];
+  for (const file of files) {
+    if (file.folderId && known.has(file.folderId)) {
+      updated.push(file);
+    } else if (await patchFile(file.id, { folderId: root.id }, keys)) {
+      updated.push({ ...file, folderId: root.id });
+    }
+  }
+  return { folders, files: updated };
+};
+
+export const createFolder = async (vaultId: string, parentId: string, name: string, kind: FolderKind, keys: VaultKeys): Promise<Folder> => {
+  const folder: Folder = { id: crypto.randomUUID(), vaultId, name, kind, parentId, createdAt: Date.now() };
+  await saveFolder(folder, keys);
+  return folder;
+};
+
+export const updateFolder = async (folder: Folder, changes: Partial<Pick<Folder, 'name' | 'kind'>>, keys: VaultKeys): Promise<Folder> => {
+  const updated = { ...folder, ...changes };
+  await saveFolder(updated, keys);
+  return updated;
+};
+
+export const moveFolder = async (folders: Folder[], folder: Folder, parentId: string, keys: VaultKeys): Promise<Folder> => {
+  if (folder.parentId === null) throw new Error('The root folder cannot be moved.');
+  if (isDescendant(folders, parentId, folder.id)) throw new Error('A folder cannot be moved into itself.');
+  const moved = { ...folder, parentId };
+  await saveFolder(moved, keys);
+  return moved;
+};
+
+// Nothing inside a deleted folder is lost: its files and subfolders move up to its parent.
+export const deleteFolder = async (folder: Folder, folders: Folder[], files: StoredFile[], keys: VaultKeys): Promise<void> => {
+  if (!folder.parentId) throw new Error('The root folder cannot be deleted.');
+  for (const child of folders.filter(f => f.parentId === folder.id)) {
+    await saveFolder({ ...child, parentId: folder.parentId }, keys);
+  }
+  await moveFiles(files.filter(f => f.folderId === folder.id).map(f => f.id), folder.parentId, keys);
+  await deleteFolderRecord(folder.id);
+};
+
+// Resolves to the IDs that were moved; files deleted meanwhile are skipped.
+export const moveFiles = async (ids: string[], folderId: string, keys: VaultKeys): Promise<string[]> => {
+  const moved: string[] = [];
+  for (const id of ids) {
+    if (await patchFile(id, { folderId }, keys)) moved.push(id);
+  }
+  return moved;
+};
+
+// A copy shares the chunks of files with shared chunks. Older chunks are bound to
+// their file ID, so a copy of those has to be re-encrypted under its own ID and
+// salt. Whole files aren't bound and are cloned as is.
+async function copyFile(file: StoredFile, folderId: string, keys: VaultKeys, signal?: AbortSignal): Promise<StoredFile> {
+  const id = crypto.randomUUID();
+  const copy: StoredFile = { ...file, id, folderId, versionGroupId: undefined };
+
+  if (file.isChunked && file.chunkIds && (file.chunkFormat ?? 0) >= SHARED_CHUNK_FORMAT) {
+    if (!(await retainChunks(file.chunkIds))) throw new Error(`Parts of ${file.name} are missing.`);
+    try {
+      await saveFile(copy, keys);
+    } catch (err) {
+      await deleteChunks(file.chunkIds).catch(e => console.error("Copy cleanup failed", e));
+      throw err;
+    }
+  } else if (file.isChunked && file.chunkIds) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const total = file.chunkIds.length;
+    const chunkIds: string[] = [];
+    const chunkIvs: Uint8Array[] = [];
+    const reader = createDecryptStream(file, keys, signal).getReader();
+    try {
+      for (let index = 0; index < total; index++) {
+        const { value } = await reader.read();
+        if (!value) throw new Error(`Part ${index + 1} of ${file.name} is missing.`);
+        const data = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
+        const { encryptedData, iv } = await encryptChunk(data, keys, salt, { fileId: id, index, total, format: CHUNK_FORMAT }, signal);
+        const chunkId = crypto.randomUUID();
+        await saveChunk(chunkId, encryptedData);
+        chunkIds.push(chunkId);
+        chunkIvs.push(iv);
+      }
+      Object.assign(copy, { salt, keyScheme: 'master', chunkFormat: CHUNK_FORMAT, chunkIds, chunkIvs });
+      await saveFile(copy, keys);
+    } catch (err) {
+      reader.cancel().catch(() => {});
+      await deleteChunks(chunkIds).catch(e => console.error("Copy cleanup failed", e));
+      throw err;
+    }
+  } else {
+    await saveFile({ ...copy, ...(await getFilePayload(file.id)) }, keys);
+  }
+
+  const thumbnail = await getThumbnail(file.id);
+  if (thumbnail) {
+    try {
+      const sealed = await sealThumbnail(await openThumbnail(thumbnail, keys, file.id), keys, id);
+      await saveThumbnail({ id, vaultId: file.vaultId, ...sealed });
+    } catch (err) {
+      console.warn(`Thumbnail of ${file.name} not copied`, err);
+    }
+  }
+  await copySearchEntry(file, copy, keys).catch(err => console.warn(`Search entry of ${file.name} not copied`, err));
+  return copy;
+}
+
+export const copyFiles = async (files: StoredFile[], folderId: string, keys: VaultKeys, { signal, onProgress }: CopyOptions = {}): Promise<StoredFile[]> => {
+  const copies: StoredFile[] = [];
+  for (let i = 0; i < files.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i, files.length);
+    copies.push(await copyFile(files[i], folderId, keys, signal));
+  }
+  onProgress?.(files.length, files.length);
+  return copies;
+};
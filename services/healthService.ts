@@ -0,0 +1,130 @@
+import { DamagedFile, StoredFile, VaultHealthReport, VaultKeys } from '../types';
+import { chunkBinding, checkChunkList } from './cryptoService';
+import { decryptFile, decryptChunk } from './workerCryptoService';
+import {
+  getVaultProfiles,
+  getFileRecordSummaries,
+  getChunkSizes,
+  getAllUploadSessions,
+  getMigrationJobs,
+  getStoredFile,
+  getChunk,
+  openFileRecord,
+  purgeRecords
+} from './storageService';
+
+interface ScanOptions {
+  deep?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Every chunk something still points at: file records of any vault, unfinished
+// uploads and chunks a migration has written but not yet committed.
+async function collectReferences() {
+  const [profiles, records, uploads, jobs] = await Promise.all([
+    getVaultProfiles(),
+    getFileRecordSummaries(),
+    getAllUploadSessions(),
+    getMigrationJobs()
+  ]);
+  const vaultIds = new Set(profiles.map(p => p.id));
+  const orphanedRecords = records.filter(r => !vaultIds.has(r.vaultId));
+
+  const referenced = new Set<string>();
+  for (const record of records) {
+    if (vaultIds.has(record.vaultId)) record.chunkIds?.forEach(id => referenced.add(id));
+  }
+  for (const upload of uploads) upload.chunkIds.forEach(id => referenced.add(id));
+  for (const job of jobs) job.inFlight?.chunkIds.forEach(id => referenced.add(id));
+
+  return { records, orphanedRecords, referenced };
+}
+
+// Decrypts the whole payload; AES-GCM tags catch any modified, swapped or truncated data
+async function verifyPayload(file: StoredFile, keys: VaultKeys, signal?: AbortSignal) {
+  if (file.isChunked && file.chunkIds && file.chunkIvs) {
+    checkChunkList(file);
+    for (let i = 0; i < file.chunkIds.length; i++) {
+      const encryptedChunk = await getChunk(file.chunkIds[i]);
+      await decryptChunk(encryptedChunk, keys, file.chunkIvs[i], file.salt, file.keyScheme, chunkBinding(file, i), signal);
+    }
+  } else {
+    await decryptFile(file.encryptedData!, keys, file.iv, file.salt, file.isCompressed, file.keyScheme, signal);
+  }
+}
+
+// Read-only: nothing is changed until one of the repair functions below is called.
+// Chunks are checked across all vaults, since chunk records carry no owner.
+export const scanVaultHealth = async (vaultId: string, keys: VaultKeys, { deep = false, signal, onProgress }: ScanOptions = {}): Promise<VaultHealthReport> => {
+  const chunkSizes = await getChunkSizes();
+  const { records, orphanedRecords, referenced } = await collectReferences();
+
+  const orphanedChunkIds = [...chunkSizes.keys()].filter(id => !referenced.has(id));
+  // Chunks of orphaned records are already counted as orphaned chunks
+  const reclaimableBytes = orphanedChunkIds.reduce((acc, id) => acc + chunkSizes.get(id)!, 0) +
+    orphanedRecords.reduce((acc, r) => acc + r.payloadBytes, 0);
+
+  const own = records.filter(r => r.vaultId === vaultId);
+  const damaged: DamagedFile[] = [];
+  for (let i = 0; i < own.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i, own.length);
+
+    const record = await getStoredFile(own[i].id);
+    if (!record) continue; // Deleted meanwhile
+
+    let file: StoredFile;
+    try {
+      file = await openFileRecord(record, keys);
+    } catch (err) {
+      damaged.push({ id: record.id, reason: 'unreadable-metadata' });
+      continue;
+    }
+
+    const missingChunks = (file.chunkIds || []).filter(id => !chunkSizes.has(id)).length;
+    if (missingChunks > 0 || (file.isChunked && !file.chunkIds?.length)) {
+      damaged.push({ id: file.id, name: file.name, reason: 'missing-chunks', missingChunks });
+      continue;
+    }
+
+    if (deep) {
+      try {
+        await verifyPayload(file, keys, signal);
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        damaged.push({ id: file.id, name: file.name, reason: 'corrupted' });
+      }
+    }
+  }
+
+  return {
+    vaultId,
+    scannedFiles: own.length,
+    scannedChunks: chunkSizes.size,
+    orphanedChunkIds,
+    orphanedRecordIds: orphanedRecords.map(r => r.id),
+    reclaimableBytes,
+    damaged,
+    deep,
+    checkedAt: Date.now()
+  };
+};
+
+// References are collected again right before deleting, so anything that gained
+// an owner since the scan (a finished upload, a restored backup) is kept.
+export const reclaimOrphans = async (report: VaultHealthReport): Promise<void> => {
+  const { orphanedRecords, referenced } = await collectReferences();
+  const stillOrphaned = new Set(orphanedRecords.map(r => r.id));
+  await purgeRecords(
+    report.orphanedRecordIds.filter(id => stillOrphaned.has(id)),
+    report.orphanedChunkIds.filter(id => !referenced.has(id))
+  );
+};
+
+// Damaged files can't be restored; removing them drops the record and whatever chunks remain.
+export const removeDamagedFiles = async (report: VaultHealthReport): Promise<string[]> => {
+  const ids = report.damaged.map(d => d.id);
+  await purgeRecords(ids, []);
+  return ids;
+};
@@ -0,0 +1,87 @@
+import { LockPolicy } from '../types';
+
+export const DEFAULT_LOCK_POLICY: LockPolicy = { idleMinutes: 15, lockOnHide: true, lockOnBlur: false, panicLock: true };
+
+const MINUTE = 60 * 1000;
+const HIDE_GRACE = 3000; // Mobile browsers briefly hide the tab while opening pickers
+const CHECK_INTERVAL = 5000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'wheel', 'touchstart', 'scroll'];
+
+interface AutoLockOptions {
+  startedAt: number; // When the vault was unlocked
+  onLock: () => void;
+  isPaused: () => boolean; // A file picker or the camera has the focus
+}
+
+// Ctrl/⌘ + Shift + L
+export const isPanicKey = (e: KeyboardEvent) => (e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'l';
+
+// Watches for every trigger the policy enables and locks once. Returns a
+// function that stops watching.
+export const startAutoLock = (policy: LockPolicy, { startedAt, onLock, isPaused }: AutoLockOptions): (() => void) => {
+  let lastActivity = Date.now();
+  let hideTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const lock = () => {
+    stop();
+    onLock();
+  };
+
+  const markActive = () => { lastActivity = Date.now(); };
+
+  // Timers are throttled in background tabs, so limits are also checked on return
+  const check = () => {
+    const now = Date.now();
+    if (policy.maxSessionMinutes && now - startedAt >= policy.maxSessionMinutes * MINUTE) lock();
+    else if (policy.idleMinutes && !isPaused() && now - lastActivity >= policy.idleMinutes * MINUTE) lock();
+  };
+
+  const handleVisibility = () => {
+    clearTimeout(hideTimer);
+    if (document.visibilityState === 'visible') {
+      check();
+      markActive();
+    } else if (policy.lockOnHide && !isPaused()) {
+      hideTimer = setTimeout(() => {
+        if (document.visibilityState === 'hidden' && !isPaused()) lock();
+      }, HIDE_GRACE);
+    }
+  };
+
+  const handleBlur = () => {
+    if (policy.lockOnBlur && !isPaused()) lock();
+  };
+
+  // Captured first, so the hotkey works in inputs and viewers that stop propagation
+  const handleKey = (e: KeyboardEvent) => {
+    if (policy.panicLock && isPanicKey(e)) {
+      e.preventDefault();
+      lock();
+    } else {
+      markActive();
+    }
+  };
+
+  const handleTouch = (e: TouchEvent) => {
+    if (policy.panicLock && e.touches.length >= 3) lock();
+  };
+
+  const interval = setInterval(check, CHECK_INTERVAL);
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActive, { capture: true, passive: true }));
+  window.addEventListener('keydown', handleKey, { capture: true });
+  window.addEventListener('touchstart', handleTouch, { capture: true, passive: true });
+  window.addEventListener('blur', handleBlur);
+  document.addEventListener('visibilitychange', handleVisibility);
+
+  function stop() {
+    clearInterval(interval);
+    clearTimeout(hideTimer);
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActive, { capture: true }));
+    window.removeEventListener('keydown', handleKey, { capture: true });
+    window.removeEventListener('touchstart', handleTouch, { capture: true });
+    window.removeEventListener('blur', handleBlur);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  }
+
+  return stop;
+};
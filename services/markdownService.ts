@@ -0,0 +1,83 @@
+import { MarkdownBlock, MarkdownInline } from '../types';
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|_([^_\s][^_]*?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Code spans, bold, italics and links. Links to anything but web and mail
+// addresses stay plain text.
+export const parseInline = (text: string): MarkdownInline[] => {
+  const result: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index! > last) result.push({ kind: 'text', text: text.slice(last, match.index) });
+    const [whole, code, strong, strongAlt, em, emAlt, label, href] = match;
+    if (code !== undefined) result.push({ kind: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) result.push({ kind: 'strong', text: strong ?? strongAlt });
+    else if (em !== undefined || emAlt !== undefined) result.push({ kind: 'em', text: em ?? emAlt });
+    else if (SAFE_LINK.test(href)) result.push({ kind: 'link', text: label, href });
+    else result.push({ kind: 'text', text: whole });
+    last = match.index! + whole.length;
+  }
+  if (last < text.length) result.push({ kind: 'text', text: text.slice(last) });
+  return result;
+};
+
+// The common subset of markdown that notes need. Nothing is ever turned into
+// HTML: the blocks are rendered as elements, so note text can't inject markup.
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: 'paragraph', content: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    let match: RegExpMatchArray | null;
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ kind: 'code', text: code.join('\n') });
+    } else if (!line.trim()) {
+      flush();
+    } else if ((match = line.match(HEADING))) {
+      flush();
+      blocks.push({ kind: 'heading', level: match[1].length, content: parseInline(match[2]) });
+    } else if (RULE.test(line)) {
+      flush();
+      blocks.push({ kind: 'rule' });
+    } else if ((match = line.match(QUOTE))) {
+      flush();
+      const quoted = [match[1]];
+      while (i + 1 < lines.length && (match = lines[i + 1].match(QUOTE))) {
+        quoted.push(match[1]);
+        i++;
+      }
+      blocks.push({ kind: 'quote', content: parseInline(quoted.join('\n')) });
+    } else if ((match = line.match(LIST_ITEM))) {
+      flush();
+      const ordered = /\d/.test(match[1]);
+      const items: { content: MarkdownInline[], checked?: boolean }[] = [];
+      do {
+        items.push({ content: parseInline(match[3]), checked: match[2] === undefined ? undefined : match[2] !== ' ' });
+        i++;
+      } while (i < lines.length && (match = lines[i].match(LIST_ITEM)) && /\d/.test(match[1]) === ordered);
+      i--;
+      blocks.push({ kind: 'list', ordered, items });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+};
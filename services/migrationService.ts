@@ -0,0 +1,121 @@
+import { MigrationJob, StoredFile, VaultKeys } from '../types';
+import { sealPin, openSealedPin, chunkBinding, CHUNK_FORMAT } from './cryptoService';
+import { decryptFile, encryptFile, decryptChunk, encryptChunk } from './workerCryptoService';
+import {
+  getFilesByVault,
+  getFilePayload,
+  getStoredFile,
+  getChunk,
+  saveChunk,
+  deleteChunks,
+  commitFileRewrite,
+  getMigrationJob,
+  saveMigrationJob,
+  deleteMigrationJob
+} from './storageService';
+
+interface MigrationOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  onFile?: (id: string, patch: Partial<StoredFile>) => void;
+}
+
+const running = new Set<string>();
+
+// PIN-bound records, and chunks written before they were bound to their file
+export const needsMigration = (file: StoredFile) =>
+  file.keyScheme !== 'master' || (!!file.isChunked && (file.chunkFormat ?? 0) < CHUNK_FORMAT);
+
+// Must run before the PIN changes: the job keeps the PIN that legacy records are
+// bound to, sealed under the master key, so a crash at any point is recoverable.
+// Also started on unlock whenever records still need an upgrade.
+export const startMigration = async (vaultId: string, pin: string, keys: VaultKeys): Promise<void> => {
+  // An existing job already holds the PIN its remaining records need
+  if (await getMigrationJob(vaultId)) return;
+  await saveMigrationJob({
+    id: vaultId,
+    sealedPin: await sealPin(pin, keys),
+    processed: 0,
+    startedAt: Date.now()
+  });
+};
+
+// While a job is pending, legacy records need the PIN sealed in the job rather
+// than the one used to unlock.
+export const resolveLegacyKeys = async (vaultId: string, keys: VaultKeys): Promise<VaultKeys> => {
+  const job = await getMigrationJob(vaultId);
+  if (!job) return keys;
+  return { ...keys, pinKey: await openSealedPin(job.sealedPin, keys) };
+};
+
+// Resolves to the fields that changed, less the payload itself, or null if the
+// file was deleted meanwhile.
+async function migrateFile(file: StoredFile, keys: VaultKeys, job: MigrationJob, signal?: AbortSignal): Promise<Partial<StoredFile> | null> {
+  if (file.isChunked && file.chunkIds && file.chunkIvs) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const chunkIds = file.chunkIds.map(() => crypto.randomUUID());
+    const chunkIvs: Uint8Array[] = [];
+
+    // Record the new chunk IDs first so an interrupted rewrite can be cleaned up
+    job.inFlight = { fileId: file.id, chunkIds };
+    await saveMigrationJob(job);
+
+    for (let i = 0; i < file.chunkIds.length; i++) {
+      signal?.throwIfAborted();
+      const encryptedChunk = await getChunk(file.chunkIds[i]);
+      const decryptedChunk = await decryptChunk(encryptedChunk, keys, file.chunkIvs[i], file.salt, file.keyScheme, chunkBinding(file, i), signal);
+      const binding = { fileId: file.id, index: i, total: file.chunkIds.length, format: CHUNK_FORMAT };
+      const { encryptedData, iv } = await encryptChunk(decryptedChunk, keys, salt, binding, signal);
+      await saveChunk(chunkIds[i], encryptedData);
+      chunkIvs.push(iv);
+    }
+    const patch: Partial<StoredFile> = { salt, chunkIds, chunkIvs, keyScheme: 'master', chunkFormat: CHUNK_FORMAT };
+    return (await commitFileRewrite(file.id, patch, file.chunkIds, chunkIds, keys)) ? patch : null;
+  }
+
+  // The payload is re-encrypted as-is, so compressed data stays compressed
+  const stored = await getFilePayload(file.id);
+  const payload = await decryptFile(stored.encryptedData!, keys, stored.iv!, stored.salt!, false, stored.keyScheme, signal);
+  const { encryptedData, iv, salt, keyScheme } = await encryptFile(payload, keys, true, signal);
+  const patch: Partial<StoredFile> = { encryptedData, iv, salt, keyScheme };
+  return (await commitFileRewrite(file.id, patch, [], [], keys)) ? { iv, salt, keyScheme } : null;
+}
+
+// Re-encrypts every PIN-bound record of a vault under the master key. Each file is
+// committed on its own, so the job can stop at any point and resume on next unlock.
+export const runMigration = async (vaultId: string, keys: VaultKeys, { signal, onProgress, onFile }: MigrationOptions = {}): Promise<void> => {
+  if (running.has(vaultId)) return;
+  const job = await getMigrationJob(vaultId);
+  if (!job) return;
+
+  running.add(vaultId);
+  try {
+    const legacyKeys: VaultKeys = { ...keys, pinKey: await openSealedPin(job.sealedPin, keys) };
+
+    if (job.inFlight) {
+      // Only drop chunks the file didn't end up referencing (the commit may have landed)
+      const owner = await getStoredFile(job.inFlight.fileId);
+      const stale = job.inFlight.chunkIds.filter(id => !owner?.chunkIds?.includes(id));
+      await deleteChunks(stale);
+      job.inFlight = undefined;
+      await saveMigrationJob(job);
+    }
+
+    const pending = (await getFilesByVault(vaultId, keys)).filter(needsMigration);
+    for (let i = 0; i < pending.length; i++) {
+      signal?.throwIfAborted();
+      onProgress?.(i, pending.length);
+      const updated = await migrateFile(pending[i], legacyKeys, job, signal);
+      job.processed++;
+      job.inFlight = undefined;
+      await saveMigrationJob(job);
+      if (updated) onFile?.(pending[i].id, updated);
+    }
+
+    await deleteMigrationJob(vaultId);
+  } catch (err) {
+    if (!signal?.aborted) throw err;
+  } finally {
+    running.delete(vaultId);
+  }
+};
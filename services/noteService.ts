@@ -0,0 +1,52 @@
+import { StoredFile, VaultKeys } from '../types';
+import { encryptFile, hashContent } from './cryptoService';
+import { saveFile, patchFile } from './storageService';
+import { readFileBlob } from './streamService';
+import { indexFile } from './searchService';
+
+export const NOTE_MIME_TYPE = 'text/markdown';
+export const UNTITLED_NOTE = 'Untitled note';
+
+export const isNote = (file: Pick<StoredFile, 'type'>) => file.type === 'note';
+
+// A note is stored like any small file: its text is compressed and encrypted
+// whole, and each save replaces the payload. The text only exists in the clear
+// in memory while the note is open.
+async function sealBody(body: string, keys: VaultKeys) {
+  const data = new TextEncoder().encode(body);
+  const contentHash = await hashContent(data, keys);
+  const { encryptedData, iv, salt, compressedSize, isCompressed, keyScheme } = await encryptFile(data.buffer, keys);
+  return { size: data.byteLength, compressedSize, isCompressed, encryptedData, iv, salt, keyScheme, contentHash };
+}
+
+const titleOf = (title: string) => title.trim() || UNTITLED_NOTE;
+
+export const createNote = async (vaultId: string, folderId: string | undefined, title: string, body: string, keys: VaultKeys): Promise<StoredFile> => {
+  const now = Date.now();
+  const note: StoredFile = {
+    id: crypto.randomUUID(),
+    vaultId,
+    name: titleOf(title),
+    type: 'note',
+    mimeType: NOTE_MIME_TYPE,
+    ...(await sealBody(body, keys)),
+    folderId,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveFile(note, keys);
+  await indexFile(note, new Blob([body]), keys);
+  return note;
+};
+
+// Resolves to null if the note was deleted meanwhile.
+export const updateNote = async (note: StoredFile, title: string, body: string, keys: VaultKeys): Promise<StoredFile | null> => {
+  const patch = { name: titleOf(title), ...(await sealBody(body, keys)), updatedAt: Date.now() };
+  if (!(await patchFile(note.id, patch, keys))) return null;
+  const updated = { ...note, ...patch };
+  await indexFile(updated, new Blob([body]), keys);
+  return updated;
+};
+
+export const readNote = async (note: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<string> =>
+  (await readFileBlob(note, keys, signal)).text();
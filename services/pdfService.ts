@@ -0,0 +1,23 @@
+import * as pdfjs from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+
+// pdf.js is large, so this module is only ever loaded with a dynamic import.
+// Documents are opened from decrypted bytes; nothing is fetched by URL.
+let worker: Worker | null = null;
+
+export const openPdf = (data: ArrayBuffer): Promise<PDFDocumentProxy> => {
+  if (!worker) {
+    worker = new Worker(new URL('./pdfWorker.ts', import.meta.url), { type: 'module' });
+    pdfjs.GlobalWorkerOptions.workerPort = worker;
+  }
+  return pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise;
+};
+
+// Renders a page so that its longer side is `edge` CSS pixels
+export const renderPdfPage = async (page: PDFPageProxy, canvas: HTMLCanvasElement, edge: number, pixelRatio = 1): Promise<void> => {
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: (edge / Math.max(base.width, base.height)) * pixelRatio });
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+};
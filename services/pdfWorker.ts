@@ -0,0 +1,3 @@
+// pdf.js parser, run as a module worker so Vite bundles it with the app like
+// cryptoWorker. The library sets up its own message handling on import.
+import 'pdfjs-dist/build/pdf.worker.min.mjs';
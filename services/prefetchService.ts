@@ -0,0 +1,77 @@
+import { StoredFile, VaultKeys } from '../types';
+import { readFileBlob } from './streamService';
+import { viewerFor } from './viewerService';
+
+const PREFETCH_BUDGET = 96 * 1024 * 1024; // Decrypted bytes kept for the preview at most
+const MAX_PREFETCH_SIZE = PREFETCH_BUDGET / 4; // Larger files are only read when shown
+
+// Decrypted neighbours of the previewed file, least recently used first. The
+// plaintext only lives in memory and is dropped when the preview closes.
+const cache = new Map<string, Blob>();
+let cachedBytes = 0;
+let prefetchRun: AbortController | null = null;
+
+// Video and audio stream as they play, so only documents and images are read ahead
+export const canPrefetch = (file: StoredFile) => {
+  const viewer = viewerFor(file);
+  return !!viewer && viewer !== 'video' && viewer !== 'audio' && file.size <= MAX_PREFETCH_SIZE;
+};
+
+function remember(id: string, blob: Blob, keep: Set<string>) {
+  if (blob.size > MAX_PREFETCH_SIZE) return;
+  cache.set(id, blob);
+  cachedBytes += blob.size;
+  for (const [cachedId, cached] of cache) {
+    if (cachedBytes <= PREFETCH_BUDGET) break;
+    if (keep.has(cachedId)) continue;
+    cache.delete(cachedId);
+    cachedBytes -= cached.size;
+  }
+}
+
+function take(id: string) {
+  const blob = cache.get(id);
+  if (blob) {
+    cache.delete(id);
+    cache.set(id, blob);
+  }
+  return blob;
+}
+
+// Reads the file for the preview, from the cache when it was read ahead
+export const readPreviewBlob = async (file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<Blob> => {
+  const cached = take(file.id);
+  if (cached) return cached;
+  const blob = await readFileBlob(file, keys, signal);
+  signal?.throwIfAborted();
+  remember(file.id, blob, new Set([file.id]));
+  return blob;
+};
+
+// Reads ahead in order, nearest first. A new call replaces the previous run.
+export const prefetchFiles = (current: StoredFile, files: StoredFile[], keys: VaultKeys): void => {
+  prefetchRun?.abort();
+  const controller = new AbortController();
+  prefetchRun = controller;
+  const keep = new Set([current.id, ...files.map(f => f.id)]);
+
+  (async () => {
+    for (const file of files) {
+      if (controller.signal.aborted) return;
+      if (cache.has(file.id) || !canPrefetch(file)) continue;
+      try {
+        const blob = await readFileBlob(file, keys, controller.signal);
+        if (!controller.signal.aborted) remember(file.id, blob, keep);
+      } catch (err) {
+        if (!controller.signal.aborted) console.warn(`Could not read ahead ${file.name}`, err);
+      }
+    }
+  })();
+};
+
+export const clearPrefetched = () => {
+  prefetchRun?.abort();
+  prefetchRun = null;
+  cache.clear();
+  cachedBytes = 0;
+};
@@ -0,0 +1,202 @@
+import { SearchEntry, SearchSnippet, StoredFile, VaultKeys } from '../types';
+import { sealSearchEntry, openSearchEntry } from './cryptoService';
+import { saveSearchEntry, getSearchEntry, getSearchEntries } from './storageService';
+import { readFileBlob } from './streamService';
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'log', 'xml', 'html', 'htm', 'yaml', 'yml', 'ini'];
+const MAX_TEXT_BYTES = 8 * 1024 * 1024; // Only the start of larger text files is read
+const MAX_PDF_PAGES = 500;
+const MAX_TERMS = 50000;
+const SNIPPET_TEXT_LENGTH = 20000; // Characters kept per document for snippets
+const SNIPPET_CONTEXT = 60;
+const MIN_TERM_LENGTH = 2;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+type IndexSource = Pick<StoredFile, 'name' | 'mimeType'>;
+
+interface IndexOptions {
+  all?: boolean; // Also re-read documents already indexed
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// The index of the unlocked vault is kept in memory only. On disk each document
+// has its own sealed entry, deleted with its file, and the inverted index is
+// rebuilt from those on unlock.
+const postings = new Map<string, Set<string>>();
+const documents = new Map<string, SearchEntry>();
+const listeners = new Set<() => void>();
+let indexVersion = 0;
+let loadGeneration = 0;
+
+const notify = () => {
+  indexVersion++;
+  listeners.forEach(l => l());
+};
+
+export const subscribeSearchIndex = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getSearchIndexVersion = () => indexVersion;
+
+const extensionOf = (name: string) => name.split('.').pop()!.toLowerCase();
+const isPdf = (file: IndexSource) => file.mimeType === 'application/pdf';
+const isText = (file: IndexSource) =>
+  file.mimeType.startsWith('text/') || file.mimeType === 'application/json' || TEXT_EXTENSIONS.includes(extensionOf(file.name));
+
+export const canIndex = (file: IndexSource) => isPdf(file) || isText(file);
+
+// Case and accents are ignored, so "Resume" finds "résumé"
+const normalize = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  (normalize(text).match(WORD) || []).filter(term => term.length >= MIN_TERM_LENGTH);
+
+async function extractPdfText(blob: Blob, signal?: AbortSignal) {
+  const { openPdf } = await import('./pdfService');
+  const doc = await openPdf(await blob.arrayBuffer());
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PDF_PAGES); n++) {
+      signal?.throwIfAborted();
+      const content = await (await doc.getPage(n)).getTextContent();
+      pages.push(content.items.map((item: any) => item.str + (item.hasEOL ? '\n' : ' ')).join(''));
+    }
+    return pages.join('\n');
+  } finally {
+    doc.destroy();
+  }
+}
+
+// Scanned PDFs without a text layer simply yield no text.
+const extractText = (source: Blob, file: IndexSource, signal?: AbortSignal): Promise<string> =>
+  isPdf(file) ? extractPdfText(source, signal) : source.slice(0, MAX_TEXT_BYTES).text();
+
+function addToIndex(fileId: string, entry: SearchEntry) {
+  for (const term of documents.get(fileId)?.terms || []) {
+    const ids = postings.get(term)!;
+    ids.delete(fileId);
+    if (ids.size === 0) postings.delete(term);
+  }
+  for (const term of entry.terms) {
+    let ids = postings.get(term);
+    if (!ids) postings.set(term, ids = new Set());
+    ids.add(fileId);
+  }
+  documents.set(fileId, entry);
+}
+
+async function storeEntry(file: StoredFile, entry: SearchEntry, keys: VaultKeys) {
+  const { encryptedData, iv } = await sealSearchEntry(entry, keys, file.id);
+  await saveSearchEntry({ id: file.id, vaultId: file.vaultId, encryptedData, iv });
+  addToIndex(file.id, entry);
+  notify();
+}
+
+// Called while the plaintext is still at hand. Documents without text still get
+// an (empty) entry, so they aren't read again when the index is completed.
+export const indexFile = async (file: StoredFile, source: Blob, keys: VaultKeys, signal?: AbortSignal): Promise<boolean> => {
+  if (!canIndex(file)) return false;
+  try {
+    const text = (await extractText(source, file, signal)).replace(/\s+/g, ' ').trim();
+    await storeEntry(file, { terms: [...new Set(tokenize(text))].slice(0, MAX_TERMS), text: text.slice(0, SNIPPET_TEXT_LENGTH) }, keys);
+    return true;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn(`Could not index ${file.name}`, err);
+    return false;
+  }
+};
+
+// Copies keep the entry of their original under their own ID
+export const copySearchEntry = async (file: StoredFile, copy: StoredFile, keys: VaultKeys): Promise<void> => {
+  const stored = await getSearchEntry(file.id);
+  if (stored) await storeEntry(copy, await openSearchEntry<SearchEntry>(stored, keys, file.id), keys);
+};
+
+export const resetSearchIndex = () => {
+  loadGeneration++;
+  postings.clear();
+  documents.clear();
+  notify();
+};
+
+// Entries that can't be opened are skipped; completing the index replaces them.
+export const loadSearchIndex = async (vaultId: string, keys: VaultKeys): Promise<void> => {
+  resetSearchIndex();
+  const generation = loadGeneration;
+  const stored = await getSearchEntries(vaultId);
+  for (const record of stored) {
+    try {
+      const entry = await openSearchEntry<SearchEntry>(record, keys, record.id);
+      if (generation !== loadGeneration) return;
+      addToIndex(record.id, entry);
+    } catch (err) {
+      console.warn('Unreadable search entry skipped', err);
+    }
+  }
+  if (generation === loadGeneration) notify();
+};
+
+export const isIndexed = (fileId: string) => documents.has(fileId);
+
+// Text around the first word starting with one of the query terms, or the
+// beginning of the document if the match lies past the kept text.
+function makeSnippet(text: string, terms: string[]): SearchSnippet {
+  for (const word of text.matchAll(WORD)) {
+    const normalized = normalize(word[0]);
+    if (!terms.some(term => normalized.startsWith(term))) continue;
+    const start = word.index!;
+    const end = start + word[0].length;
+    return {
+      before: (start > SNIPPET_CONTEXT ? '…' : '') + text.slice(Math.max(0, start - SNIPPET_CONTEXT), start),
+      match: word[0],
+      after: text.slice(end, end + SNIPPET_CONTEXT * 2) + (end + SNIPPET_CONTEXT * 2 < text.length ? '…' : '')
+    };
+  }
+  return { before: '', match: '', after: text.slice(0, SNIPPET_CONTEXT * 3) + (text.length > SNIPPET_CONTEXT * 3 ? '…' : '') };
+}
+
+// Documents containing a word starting with every term of the query, with a
+// snippet each.
+export const searchContent = (query: string): Map<string, SearchSnippet> => {
+  const results = new Map<string, SearchSnippet>();
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return results;
+
+  let matches: Set<string> | null = null;
+  for (const term of terms) {
+    const found = new Set<string>();
+    for (const [word, ids] of postings) {
+      if (word.startsWith(term)) ids.forEach(id => (!matches || matches.has(id)) && found.add(id));
+    }
+    matches = found;
+    if (matches.size === 0) return results;
+  }
+  for (const id of matches!) results.set(id, makeSnippet(documents.get(id)!.text, terms));
+  return results;
+};
+
+// Indexes documents stored before search existed, or all of them again
+export const buildSearchIndex = async (files: StoredFile[], keys: VaultKeys, { all = false, signal, onProgress }: IndexOptions = {}): Promise<{ indexed: number, failed: number }> => {
+  const targets = files.filter(f => canIndex(f) && (all || !isIndexed(f.id)));
+  let indexed = 0;
+  let failed = 0;
+
+  for (let i = 0; i < targets.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i, targets.length);
+    try {
+      const source = await readFileBlob(targets[i], keys, signal);
+      if (await indexFile(targets[i], source, keys, signal)) indexed++;
+      else failed++;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn(`Could not index ${targets[i].name}`, err);
+      failed++;
+    }
+  }
+  return { indexed, failed };
+};
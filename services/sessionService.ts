@@ -0,0 +1,48 @@
+import { VaultKeys } from '../types';
+import { getSession, saveSession, deleteSession, purgeExpiredSessions } from './storageService';
+
+// Only the session ID lives in sessionStorage, so the stored keys are tied to this tab
+const SESSION_ID_KEY = 'infinity_vault_session';
+const LEGACY_PIN_KEY = 'infinity_vault_pin';
+const LEGACY_PROFILE_KEY = 'infinity_vault_profile_id';
+
+// Sessions expire shortly after the tab stops refreshing them
+export const SESSION_TTL = 10 * 60 * 1000;
+
+export const createSession = async (profileId: string, keys: VaultKeys): Promise<void> => {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  await saveSession({ id, profileId, keys, expiresAt: now + SESSION_TTL, createdAt: now });
+  sessionStorage.setItem(SESSION_ID_KEY, id);
+};
+
+export const restoreSession = async (): Promise<{ profileId: string, keys: VaultKeys, createdAt: number } | null> => {
+  // Older builds kept the PIN itself here
+  sessionStorage.removeItem(LEGACY_PIN_KEY);
+  sessionStorage.removeItem(LEGACY_PROFILE_KEY);
+
+  await purgeExpiredSessions(Date.now());
+  const id = sessionStorage.getItem(SESSION_ID_KEY);
+  if (!id) return null;
+
+  const session = await getSession(id);
+  if (!session) {
+    sessionStorage.removeItem(SESSION_ID_KEY);
+    return null;
+  }
+  await touchSession();
+  return { profileId: session.profileId, keys: session.keys, createdAt: session.createdAt ?? Date.now() };
+};
+
+export const touchSession = async (): Promise<void> => {
+  const id = sessionStorage.getItem(SESSION_ID_KEY);
+  if (!id) return;
+  const session = await getSession(id);
+  if (session) await saveSession({ ...session, expiresAt: Date.now() + SESSION_TTL });
+};
+
+export const endSession = async (): Promise<void> => {
+  const id = sessionStorage.getItem(SESSION_ID_KEY);
+  sessionStorage.removeItem(SESSION_ID_KEY);
+  if (id) await deleteSession(id);
+};
@@ -1,11 +1,37 @@
 
-import { StoredFile, VaultBackup, VaultProfile } from '../types';
+import { 
+  FileRecord, 
+  FileRecordSummary, 
+  Folder, 
+  LoginAttempts, 
+  SealedRecord, 
+  SmartCollection, 
+  MigrationJob, 
+  SealedBox, 
+  StoredChunk, 
+  StoredFile, 
+  StoredSearchEntry, 
+  StoredThumbnail, 
+  UploadSession, 
+  VaultKeys, 
+  VaultProfile, 
+  VaultSession 
+} from '../types';
+import { sealMetadata, openMetadata } from './cryptoService';
 
 const DB_NAME = 'LocalVaultDB_v2'; // Changed name to ensure fresh start if corrupted
 const STORE_NAME = 'secure_files';
 const CHUNK_STORE = 'file_chunks';
 const META_STORE = 'vault_meta'; 
-const DB_VERSION = 11; // Incremented for chunk store
+const JOB_STORE = 'vault_jobs';
+const SESSION_STORE = 'vault_sessions';
+const UPLOAD_STORE = 'upload_sessions';
+const THUMB_STORE = 'file_thumbnails';
+const FOLDER_STORE = 'vault_folders';
+const COLLECTION_STORE = 'smart_collections';
+const SEARCH_STORE = 'search_index';
+const ATTEMPT_STORE = 'login_attempts';
+const DB_VERSION = 20; // Incremented for failed login counters
 
 let dbInstance: IDBDatabase | null = null;
 
@@ -23,13 +49,53 @@ export const initDB = (): Promise<IDBDatabase> => {
         fileStore.createIndex('vaultId', 'vaultId', { unique: false });
       }
       
-      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
-        db.createObjectStore(CHUNK_STORE, { keyPath: 'id' });
+      const chunkStore = db.objectStoreNames.contains(CHUNK_STORE)
+        ? request.transaction!.objectStore(CHUNK_STORE)
+        : db.createObjectStore(CHUNK_STORE, { keyPath: 'id' });
+      if (!chunkStore.indexNames.contains('hash')) {
+        chunkStore.createIndex('hash', 'hash', { unique: false });
       }
 
       if (!db.objectStoreNames.contains(META_STORE)) {
         db.createObjectStore(META_STORE, { keyPath: 'id' });
       }
+
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+        const uploadStore = db.createObjectStore(UPLOAD_STORE, { keyPath: 'id' });
+        uploadStore.createIndex('vaultId', 'vaultId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(THUMB_STORE)) {
+        const thumbStore = db.createObjectStore(THUMB_STORE, { keyPath: 'id' });
+        thumbStore.createIndex('vaultId', 'vaultId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(FOLDER_STORE)) {
+        const folderStore = db.createObjectStore(FOLDER_STORE, { keyPath: 'id' });
+        folderStore.createIndex('vaultId', 'vaultId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(COLLECTION_STORE)) {
+        const collectionStore = db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
+        collectionStore.createIndex('vaultId', 'vaultId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(SEARCH_STORE)) {
+        const searchStore = db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+        searchStore.createIndex('vaultId', 'vaultId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(ATTEMPT_STORE)) {
+        db.createObjectStore(ATTEMPT_STORE, { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = () => {
@@ -93,23 +159,37 @@ export const saveVaultProfile = async (profile: VaultProfile): Promise<void> =>
   });
 };
 
+// Removes a profile with everything it owns: files, their chunks, thumbnails and
+// search entries, folders, collections, unfinished uploads, any pending migration
+// and its failed login counter, in a single transaction.
 export const deleteVaultProfile = async (id: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([META_STORE, STORE_NAME], 'readwrite');
+    const transaction = db.transaction([META_STORE, STORE_NAME, CHUNK_STORE, JOB_STORE, UPLOAD_STORE, THUMB_STORE, FOLDER_STORE, COLLECTION_STORE, SEARCH_STORE, ATTEMPT_STORE], 'readwrite');
+    const chunkStore = transaction.objectStore(CHUNK_STORE);
     transaction.objectStore(META_STORE).delete(id);
+    transaction.objectStore(ATTEMPT_STORE).delete(id);
     
-    const fileStore = transaction.objectStore(STORE_NAME);
-    const index = fileStore.index('vaultId');
-    const request = index.openCursor(IDBKeyRange.only(id));
-    
-    request.onsuccess = (event: any) => {
-      const cursor = event.target.result;
-      if (cursor) {
-        cursor.delete();
-        cursor.continue();
-      }
+    const jobRequest = transaction.objectStore(JOB_STORE).get(id);
+    jobRequest.onsuccess = () => {
+      const job = jobRequest.result as MigrationJob | undefined;
+      for (const chunkId of job?.inFlight?.chunkIds || []) chunkStore.delete(chunkId);
+      transaction.objectStore(JOB_STORE).delete(id);
     };
+    
+    for (const storeName of [STORE_NAME, UPLOAD_STORE, THUMB_STORE, FOLDER_STORE, COLLECTION_STORE, SEARCH_STORE]) {
+      const index = transaction.objectStore(storeName).index('vaultId');
+      const request = index.openCursor(IDBKeyRange.only(id));
+      
+      request.onsuccess = (event: any) => {
+        const cursor = event.target.result;
+        if (cursor) {
+          for (const chunkId of cursor.value.chunkIds || []) chunkStore.delete(chunkId);
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    }
 
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
@@ -117,55 +197,118 @@ export const deleteVaultProfile = async (id: string): Promise<void> => {
 };
 
 // FILE OPERATIONS
-export const getFilesByVault = async (vaultId: string): Promise<StoredFile[]> => {
-  const db = await initDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    
-    // Safety check for index
-    if (!store.indexNames.contains('vaultId')) {
-       console.warn("Index 'vaultId' missing, attempting fallback scan...");
-       const fallbackReq = store.getAll();
-       fallbackReq.onsuccess = () => {
-         const all = fallbackReq.result as StoredFile[];
-         resolve(all.filter(f => f.vaultId === vaultId));
-       };
-       return;
-    }
+// Fields left in the clear: opaque IDs and what's needed to find and decrypt the payload.
+// Everything else, including fields added later, is sealed into the metadata envelope.
+const CLEAR_FIELDS = new Set(['id', 'vaultId', 'encryptedData', 'iv', 'salt', 'keyScheme', 'isChunked', 'chunkIds', 'chunkIvs']);
 
-    const index = store.index('vaultId');
-    const request = index.getAll(IDBKeyRange.only(vaultId));
-    request.onsuccess = () => resolve(request.result || []);
-    request.onerror = () => reject(request.error);
-  });
+export const sealFileRecord = async (file: StoredFile, keys: VaultKeys): Promise<FileRecord> => {
+  const record: Record<string, any> = {};
+  const meta: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(file)) {
+    if (CLEAR_FIELDS.has(key)) record[key] = value;
+    else meta[key] = value;
+  }
+  return { ...(record as FileRecord), sealedMeta: await sealMetadata(meta, keys, file.id) };
+};
+
+export const openFileRecord = async (record: FileRecord, keys: VaultKeys): Promise<StoredFile> => {
+  const { sealedMeta, ...rest } = record;
+  if (!sealedMeta) return rest as StoredFile; // Written before metadata encryption
+  const meta = await openMetadata<Partial<StoredFile>>(sealedMeta, keys, record.id);
+  return { ...meta, ...rest } as StoredFile;
 };
 
-export const saveFile = async (file: StoredFile): Promise<void> => {
+const putFileRecords = async (records: FileRecord[]): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    store.put(file);
+    for (const record of records) store.put(record);
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const updateFile = async (file: StoredFile): Promise<void> => {
+export const FILE_PAGE_SIZE = 500;
+
+export interface FilePage {
+  files: StoredFile[];
+  next: string | null; // Pass as `after` to read the following page
+}
+
+// Record IDs are random, so pages come in no meaningful order; dates and names
+// are sealed and only known once a page is decrypted. Callers sort what they have.
+const getRecordPage = async (vaultId: string, after: string | null, limit: number): Promise<FileRecord[]> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    store.put(file);
-    transaction.oncomplete = () => resolve();
+    const records: FileRecord[] = [];
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).index('vaultId').openCursor(IDBKeyRange.only(vaultId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (after !== null) {
+        const order = indexedDB.cmp(cursor.primaryKey, after);
+        if (order < 0) return cursor.continuePrimaryKey(vaultId, after);
+        if (order === 0) return cursor.continue();
+      }
+      records.push(cursor.value);
+      if (records.length < limit) cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(records);
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
+export const getFilePage = async (vaultId: string, keys: VaultKeys, after: string | null = null, limit: number = FILE_PAGE_SIZE): Promise<FilePage> => {
+  const records = await getRecordPage(vaultId, after, limit);
+  const files: StoredFile[] = [];
+  const plaintext: StoredFile[] = [];
+
+  for (const record of records) {
+    try {
+      const file = await openFileRecord(record, keys);
+      const { encryptedData, ...listed } = file;
+      files.push(listed);
+      if (!record.sealedMeta) plaintext.push(file);
+    } catch (err) {
+      console.warn(`Skipping unreadable record ${record.id}`, err);
+    }
+  }
+
+  // Seal metadata of records stored before it was encrypted
+  if (plaintext.length > 0) {
+    await putFileRecords(await Promise.all(plaintext.map(f => sealFileRecord(f, keys))));
+  }
+  return { files, next: records.length < limit ? null : records[records.length - 1].id };
+};
+
+// Listed files leave out a whole file's ciphertext; this reads it when it's needed
+export const getFilePayload = async (id: string): Promise<Pick<FileRecord, 'encryptedData' | 'iv' | 'salt' | 'keyScheme'>> => {
+  const record = await getStoredFile(id);
+  if (!record?.encryptedData) throw new Error('This file is no longer in the vault.');
+  const { encryptedData, iv, salt, keyScheme } = record;
+  return { encryptedData, iv, salt, keyScheme };
+};
+
+export const getFilesByVault = async (vaultId: string, keys: VaultKeys): Promise<StoredFile[]> => {
+  const files: StoredFile[] = [];
+  let after: string | null = null;
+  do {
+    const page: FilePage = await getFilePage(vaultId, keys, after);
+    files.push(...page.files);
+    after = page.next;
+  } while (after);
+  return files;
+};
+
+export const saveFile = async (file: StoredFile, keys: VaultKeys): Promise<void> => {
+  return putFileRecords([await sealFileRecord(file, keys)]);
+};
+
 export const deleteFile = async (id: string): Promise<void> => {
   const db = await initDB();
-  const file = await new Promise<StoredFile | undefined>((resolve, reject) => {
+  const file = await new Promise<FileRecord | undefined>((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readonly');
     const store = transaction.objectStore(STORE_NAME);
     const request = store.get(id);
@@ -174,14 +317,13 @@ export const deleteFile = async (id: string): Promise<void> => {
   });
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME, CHUNK_STORE], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, CHUNK_STORE, THUMB_STORE, SEARCH_STORE], 'readwrite');
     transaction.objectStore(STORE_NAME).delete(id);
+    transaction.objectStore(THUMB_STORE).delete(id);
+    transaction.objectStore(SEARCH_STORE).delete(id);
     
     if (file?.isChunked && file.chunkIds) {
-      const chunkStore = transaction.objectStore(CHUNK_STORE);
-      for (const chunkId of file.chunkIds) {
-        chunkStore.delete(chunkId);
-      }
+      releaseChunks(transaction.objectStore(CHUNK_STORE), file.chunkIds);
     }
 
     transaction.oncomplete = () => resolve();
@@ -189,6 +331,24 @@ export const deleteFile = async (id: string): Promise<void> => {
   });
 };
 
+// Drops one reference per listed ID; a chunk is deleted with its last reference.
+// Repeated IDs are counted up front: a second read issued before the first
+// write lands would see the same count. Call it once per transaction.
+const releaseChunks = (chunkStore: IDBObjectStore, ids: string[]) => {
+  const counts = new Map<string, number>();
+  for (const id of ids) counts.set(id, (counts.get(id) || 0) + 1);
+  for (const [id, count] of counts) {
+    const request = chunkStore.get(id);
+    request.onsuccess = () => {
+      const chunk = request.result as StoredChunk | undefined;
+      if (!chunk) return;
+      const refs = (chunk.refs ?? 1) - count;
+      if (refs > 0) chunkStore.put({ ...chunk, refs });
+      else chunkStore.delete(id);
+    };
+  }
+};
+
 export const saveChunk = async (id: string, data: ArrayBuffer): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
@@ -211,35 +371,567 @@ export const getChunk = async (id: string): Promise<ArrayBuffer> => {
   });
 };
 
-export const exportFullBackup = async (): Promise<VaultBackup> => {
+export const getChunkRecord = (id: string) => getRecord<StoredChunk>(CHUNK_STORE, id);
+export const getChunkIds = () => getAllKeys(CHUNK_STORE);
+
+// Shared chunks only lose a reference
+export const deleteChunks = async (ids: string[]): Promise<void> => {
   const db = await initDB();
-  const profiles = await getVaultProfiles();
   return new Promise((resolve, reject) => {
-    const fileTransaction = db.transaction(STORE_NAME, 'readonly');
-    const store = fileTransaction.objectStore(STORE_NAME);
-    const request = store.getAll();
+    const transaction = db.transaction(CHUNK_STORE, 'readwrite');
+    releaseChunks(transaction.objectStore(CHUNK_STORE), ids);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// A stored chunk with this content hash, if any
+export const findSharedChunk = async (hash: string): Promise<StoredChunk | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHUNK_STORE, 'readonly');
+    const request = transaction.objectStore(CHUNK_STORE).index('hash').get(hash);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Stores a new shared chunk, holding the reference of the file about to use it
+export const saveSharedChunk = async (chunk: StoredChunk): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHUNK_STORE, 'readwrite');
+    transaction.objectStore(CHUNK_STORE).put(chunk);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Adds a reference to each listed chunk. Resolves to false, changing nothing,
+// if any of them is gone.
+export const retainChunks = async (ids: string[]): Promise<boolean> => {
+  const db = await initDB();
+  const counts = new Map<string, number>();
+  for (const id of ids) counts.set(id, (counts.get(id) || 0) + 1);
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHUNK_STORE, 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE);
+    let missing = false;
+    for (const [id, count] of counts) {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const chunk = request.result as StoredChunk | undefined;
+        if (!chunk) {
+          missing = true;
+          transaction.abort();
+        } else if (!missing) {
+          store.put({ ...chunk, refs: (chunk.refs ?? 1) + count });
+        }
+      };
+    }
+    transaction.oncomplete = () => resolve(true);
+    transaction.onabort = () => missing ? resolve(false) : reject(transaction.error);
+  });
+};
+
+const sameSeal = (a?: SealedBox, b?: SealedBox) => {
+  if (!a || !b) return a === b;
+  return a.iv.length === b.iv.length && a.iv.every((byte, i) => byte === b.iv[i]);
+};
+
+// Swaps a file's ciphertext for a re-encrypted copy. The patch is applied to the
+// latest decrypted record and re-sealed, then written only if nothing changed the
+// record meanwhile (otherwise it retries), so renames made during a long rewrite
+// survive. If the file was deleted meanwhile, the new chunks are dropped instead.
+// Resolves to whether the rewrite was committed.
+export const commitFileRewrite = async (id: string, patch: Partial<StoredFile>, staleChunkIds: string[], newChunkIds: string[], keys: VaultKeys): Promise<boolean> => {
+  const db = await initDB();
+  while (true) {
+    const expected = await getRecord<FileRecord>(STORE_NAME, id);
+    const next = expected ? await sealFileRecord({ ...(await openFileRecord(expected, keys)), ...patch }, keys) : null;
+
+    const outcome = await new Promise<'committed' | 'deleted' | 'conflict'>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, CHUNK_STORE], 'readwrite');
+      const fileStore = transaction.objectStore(STORE_NAME);
+      const chunkStore = transaction.objectStore(CHUNK_STORE);
+      let result: 'committed' | 'deleted' | 'conflict' = 'conflict';
+
+      const request = fileStore.get(id);
+      request.onsuccess = () => {
+        const current = request.result as FileRecord | undefined;
+        if (!current) {
+          result = 'deleted';
+          releaseChunks(chunkStore, newChunkIds);
+        } else if (next && sameSeal(current.sealedMeta, expected!.sealedMeta)) {
+          result = 'committed';
+          fileStore.put(next);
+          releaseChunks(chunkStore, staleChunkIds);
+        }
+      };
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (outcome !== 'conflict') return outcome === 'committed';
+  }
+};
+
+// Applies a metadata change to the latest version of a record, without racing
+// a background rewrite of the same file.
+export const patchFile = (id: string, patch: Partial<StoredFile>, keys: VaultKeys): Promise<boolean> => {
+  return commitFileRewrite(id, patch, [], [], keys);
+};
+
+// SEALED RECORDS
+// Folders and smart collections keep only their IDs in the clear.
+type Sealable = { id: string, vaultId: string };
+
+const getSealedRecords = async <T extends Sealable>(storeName: string, vaultId: string, keys: VaultKeys): Promise<T[]> => {
+  const db = await initDB();
+  const records = await new Promise<SealedRecord[]>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).index('vaultId').getAll(IDBKeyRange.only(vaultId));
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+
+  const items: T[] = [];
+  for (const record of records) {
+    try {
+      const meta = await openMetadata<Omit<T, 'id' | 'vaultId'>>(record.sealedMeta, keys, record.id);
+      items.push({ ...meta, id: record.id, vaultId: record.vaultId } as T);
+    } catch (err) {
+      console.warn(`Skipping unreadable record ${record.id} in ${storeName}`, err);
+    }
+  }
+  return items;
+};
+
+const putSealedRecord = async (storeName: string, item: Sealable, keys: VaultKeys): Promise<void> => {
+  const { id, vaultId, ...meta } = item;
+  const record: SealedRecord = { id, vaultId, sealedMeta: await sealMetadata(meta, keys, id) };
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const deleteRecord = async (storeName: string, id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getFolders = (vaultId: string, keys: VaultKeys) => getSealedRecords<Folder>(FOLDER_STORE, vaultId, keys);
+export const saveFolder = (folder: Folder, keys: VaultKeys) => putSealedRecord(FOLDER_STORE, folder, keys);
+export const deleteFolderRecord = (id: string) => deleteRecord(FOLDER_STORE, id);
+
+export const getCollections = (vaultId: string, keys: VaultKeys) => getSealedRecords<SmartCollection>(COLLECTION_STORE, vaultId, keys);
+export const saveCollection = (collection: SmartCollection, keys: VaultKeys) => putSealedRecord(COLLECTION_STORE, collection, keys);
+export const deleteCollection = (id: string) => deleteRecord(COLLECTION_STORE, id);
+
+// JOB OPERATIONS
+export const getMigrationJob = async (vaultId: string): Promise<MigrationJob | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOB_STORE, 'readonly');
+    const request = transaction.objectStore(JOB_STORE).get(vaultId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveMigrationJob = async (job: MigrationJob): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOB_STORE, 'readwrite');
+    transaction.objectStore(JOB_STORE).put(job);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteMigrationJob = async (vaultId: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOB_STORE, 'readwrite');
+    transaction.objectStore(JOB_STORE).delete(vaultId);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// SESSION OPERATIONS
+export const getSession = async (id: string): Promise<VaultSession | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readonly');
+    const request = transaction.objectStore(SESSION_STORE).get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveSession = async (session: VaultSession): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).put(session);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const purgeExpiredSessions = async (now: number): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const request = transaction.objectStore(SESSION_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as VaultSession).expiresAt <= now) cursor.delete();
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// LOGIN ATTEMPT OPERATIONS
+// The device key shares the store under an ID no profile can have
+const DEVICE_KEY_ID = 'device-key';
+
+export const getLoginAttempts = (profileId: string) => getRecord<LoginAttempts>(ATTEMPT_STORE, profileId);
+
+export const saveLoginAttempts = async (attempts: LoginAttempts): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTEMPT_STORE, 'readwrite');
+    transaction.objectStore(ATTEMPT_STORE).put(attempts);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteLoginAttempts = (profileId: string) => deleteRecord(ATTEMPT_STORE, profileId);
+
+export const getDeviceKey = async (): Promise<CryptoKey | undefined> =>
+  (await getRecord<{ id: string, key: CryptoKey }>(ATTEMPT_STORE, DEVICE_KEY_ID))?.key;
+
+// Keeps the first key saved if two tabs race to create one
+export const saveDeviceKey = async (key: CryptoKey): Promise<CryptoKey> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ATTEMPT_STORE, 'readwrite');
+    const store = transaction.objectStore(ATTEMPT_STORE);
+    let saved = key;
+    const request = store.get(DEVICE_KEY_ID);
+    request.onsuccess = () => {
+      if (request.result) saved = request.result.key;
+      else store.put({ id: DEVICE_KEY_ID, key });
+    };
+    transaction.oncomplete = () => resolve(saved);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// UPLOAD SESSION OPERATIONS
+export const getUploadSessions = async (vaultId: string): Promise<UploadSession[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_STORE, 'readonly');
+    const request = transaction.objectStore(UPLOAD_STORE).index('vaultId').getAll(IDBKeyRange.only(vaultId));
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveUploadSession = async (session: UploadSession): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_STORE, 'readwrite');
+    transaction.objectStore(UPLOAD_STORE).put(session);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Drops an unfinished upload together with the chunks it already saved
+export const discardUploadSession = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([UPLOAD_STORE, CHUNK_STORE], 'readwrite');
+    const uploadStore = transaction.objectStore(UPLOAD_STORE);
+    const request = uploadStore.get(id);
     request.onsuccess = () => {
-      resolve({
-        version: 2,
-        profiles,
-        files: request.result || [],
-        exportedAt: Date.now()
+      const session = request.result as UploadSession | undefined;
+      if (!session) return;
+      releaseChunks(transaction.objectStore(CHUNK_STORE), session.chunkIds);
+      uploadStore.delete(id);
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Records the next chunk of an upload together with the session. `chunk` is
+// either a new chunk to store or the ID of a stored one with the same content,
+// which gains a reference. Resolves to false if that one was deleted meanwhile.
+export const appendUploadChunk = async (session: UploadSession, chunk: StoredChunk | string): Promise<boolean> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([UPLOAD_STORE, CHUNK_STORE], 'readwrite');
+    const chunkStore = transaction.objectStore(CHUNK_STORE);
+    let found = true;
+    if (typeof chunk === 'string') {
+      const request = chunkStore.get(chunk);
+      request.onsuccess = () => {
+        const shared = request.result as StoredChunk | undefined;
+        if (!shared) {
+          found = false;
+          return;
+        }
+        chunkStore.put({ ...shared, refs: (shared.refs ?? 1) + 1 });
+        transaction.objectStore(UPLOAD_STORE).put(session);
+      };
+    } else {
+      chunkStore.put(chunk);
+      transaction.objectStore(UPLOAD_STORE).put(session);
+    }
+    transaction.oncomplete = () => resolve(found);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Writes the finished file record and retires its upload session in one step
+export const completeUploadSession = async (file: StoredFile, keys: VaultKeys): Promise<void> => {
+  const record = await sealFileRecord(file, keys);
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, UPLOAD_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record);
+    transaction.objectStore(UPLOAD_STORE).delete(file.id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// THUMBNAIL OPERATIONS
+export const saveThumbnail = async (thumbnail: StoredThumbnail): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMB_STORE, 'readwrite');
+    transaction.objectStore(THUMB_STORE).put(thumbnail);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getThumbnail = (id: string) => getRecord<StoredThumbnail>(THUMB_STORE, id);
+
+export const getThumbnailIds = async (vaultId: string): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMB_STORE, 'readonly');
+    const request = transaction.objectStore(THUMB_STORE).index('vaultId').getAllKeys(IDBKeyRange.only(vaultId));
+    request.onsuccess = () => resolve((request.result || []) as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// SEARCH INDEX OPERATIONS
+export const saveSearchEntry = async (entry: StoredSearchEntry): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_STORE, 'readwrite');
+    transaction.objectStore(SEARCH_STORE).put(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getSearchEntry = (id: string) => getRecord<StoredSearchEntry>(SEARCH_STORE, id);
+
+export const getSearchEntries = async (vaultId: string): Promise<StoredSearchEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SEARCH_STORE, 'readonly');
+    const request = transaction.objectStore(SEARCH_STORE).index('vaultId').getAll(IDBKeyRange.only(vaultId));
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// HEALTH SUPPORT
+export const getFileRecordSummaries = async (): Promise<FileRecordSummary[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const summaries: FileRecordSummary[] = [];
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const record = cursor.value as FileRecord;
+      summaries.push({
+        id: record.id,
+        vaultId: record.vaultId,
+        chunkIds: record.chunkIds,
+        payloadBytes: record.encryptedData?.byteLength || 0
       });
+      cursor.continue();
     };
+    transaction.oncomplete = () => resolve(summaries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getChunkSizes = async (): Promise<Map<string, number>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const sizes = new Map<string, number>();
+    const transaction = db.transaction(CHUNK_STORE, 'readonly');
+    const request = transaction.objectStore(CHUNK_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const chunk = cursor.value as StoredChunk;
+      sizes.set(chunk.id, chunk.data?.byteLength || 0);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(sizes);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllUploadSessions = async (): Promise<UploadSession[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_STORE, 'readonly');
+    const request = transaction.objectStore(UPLOAD_STORE).getAll();
+    request.onsuccess = () => resolve(request.result || []);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const importFullBackup = async (backup: VaultBackup): Promise<void> => {
+// Deletes records together with their chunks, thumbnails and search entries, plus loose chunks, in one transaction
+export const purgeRecords = async (recordIds: string[], chunkIds: string[]): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([META_STORE, STORE_NAME], 'readwrite');
+    const transaction = db.transaction([STORE_NAME, CHUNK_STORE, THUMB_STORE, SEARCH_STORE], 'readwrite');
+    const fileStore = transaction.objectStore(STORE_NAME);
+    const chunkStore = transaction.objectStore(CHUNK_STORE);
+    const thumbStore = transaction.objectStore(THUMB_STORE);
+    const searchStore = transaction.objectStore(SEARCH_STORE);
+    for (const id of chunkIds) chunkStore.delete(id);
+    const released: string[] = [];
+    let pending = recordIds.length;
+    for (const id of recordIds) {
+      thumbStore.delete(id);
+      searchStore.delete(id);
+      const request = fileStore.get(id);
+      request.onsuccess = () => {
+        const record = request.result as FileRecord | undefined;
+        if (record) {
+          released.push(...(record.chunkIds || []));
+          fileStore.delete(id);
+        }
+        if (--pending === 0) releaseChunks(chunkStore, released);
+      };
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// BACKUP SUPPORT
+const getAllKeys = async (storeName: string): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).getAllKeys();
+    request.onsuccess = () => resolve((request.result || []) as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getRecord = async <T>(storeName: string, id: string): Promise<T | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const request = transaction.objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getFileIds = () => getAllKeys(STORE_NAME);
+export const getStoredFile = (id: string) => getRecord<FileRecord>(STORE_NAME, id);
+export const getFolderRecords = () => getAllRecords<SealedRecord>(FOLDER_STORE);
+export const getCollectionRecords = () => getAllRecords<SealedRecord>(COLLECTION_STORE);
+export const getThumbnailRecordIds = () => getAllKeys(THUMB_STORE);
+export const getSearchEntryIds = () => getAllKeys(SEARCH_STORE);
+export const getMigrationJobs = async (): Promise<MigrationJob[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(JOB_STORE, 'readonly');
+    const request = transaction.objectStore(JOB_STORE).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putBackupRecords = async (batch: { profiles: VaultProfile[], files: FileRecord[], chunks: StoredChunk[], jobs: MigrationJob[], folders: SealedRecord[], collections: SealedRecord[], thumbnails: StoredThumbnail[], searchEntries: StoredSearchEntry[] }): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([META_STORE, STORE_NAME, CHUNK_STORE, JOB_STORE, FOLDER_STORE, COLLECTION_STORE, THUMB_STORE, SEARCH_STORE], 'readwrite');
     const metaStore = transaction.objectStore(META_STORE);
     const fileStore = transaction.objectStore(STORE_NAME);
-    
-    for (const p of backup.profiles) metaStore.put(p);
-    for (const f of backup.files) fileStore.put(f);
-    
+    const chunkStore = transaction.objectStore(CHUNK_STORE);
+    const jobStore = transaction.objectStore(JOB_STORE);
+    const folderStore = transaction.objectStore(FOLDER_STORE);
+    const collectionStore = transaction.objectStore(COLLECTION_STORE);
+    const thumbStore = transaction.objectStore(THUMB_STORE);
+    const searchStore = transaction.objectStore(SEARCH_STORE);
+
+    for (const p of batch.profiles) metaStore.put(p);
+    for (const f of batch.files) fileStore.put(f);
+    for (const c of batch.chunks) chunkStore.put(c);
+    for (const j of batch.jobs) jobStore.put(j);
+    for (const f of batch.folders) folderStore.put(f);
+    for (const c of batch.collections) collectionStore.put(c);
+    for (const t of batch.thumbnails) thumbStore.put(t);
+    for (const s of batch.searchEntries) searchStore.put(s);
+
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
@@ -0,0 +1,307 @@
+import { StoredFile, VaultKeys } from '../types';
+import { chunkBinding, checkChunkList, CHUNK_SIZE } from './cryptoService';
+import { decryptFile, decryptChunk } from './workerCryptoService';
+import { getChunk, getFilePayload } from './storageService';
+
+const FILES_PREFIX = '__vault__/files/';
+const STREAM_PREFIX = '__vault__/stream/';
+const SW_READY_TIMEOUT = 1500;
+const RANGE_CACHE_CHUNKS = 2; // Players often alternate between the start and the index at the end
+
+async function decryptChunkAt(file: StoredFile, keys: VaultKeys, index: number, signal?: AbortSignal) {
+  checkChunkList(file);
+  const encryptedChunk = await getChunk(file.chunkIds![index]);
+  if (!encryptedChunk) throw new Error(`Part ${index + 1} of ${file.name} is missing.`);
+  return decryptChunk(encryptedChunk, keys, file.chunkIvs![index], file.salt, file.keyScheme, chunkBinding(file, index), signal);
+}
+
+// Read afresh even when the caller holds a copy, as decrypting hands the buffer to a worker
+async function decryptWhole(file: StoredFile, keys: VaultKeys, signal?: AbortSignal) {
+  const { encryptedData, iv, salt, keyScheme } = await getFilePayload(file.id);
+  return decryptFile(encryptedData!, keys, iv!, salt!, file.isCompressed, keyScheme, signal);
+}
+
+// Decrypts one chunk per pull, so only the chunk being read is ever in memory.
+export const createDecryptStream = (file: StoredFile, keys: VaultKeys, signal?: AbortSignal): ReadableStream<Uint8Array> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  const detach = () => signal?.removeEventListener('abort', abort);
+  signal?.addEventListener('abort', abort, { once: true });
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      try {
+        if (!file.isChunked || !file.chunkIds) {
+          const decrypted = await decryptWhole(file, keys, controller.signal);
+          stream.enqueue(new Uint8Array(decrypted));
+          index = 1;
+        } else {
+          stream.enqueue(new Uint8Array(await decryptChunkAt(file, keys, index++, controller.signal)));
+        }
+        if (index >= (file.chunkIds?.length || 1)) {
+          detach();
+          stream.close();
+        }
+      } catch (err) {
+        detach();
+        throw err;
+      }
+    },
+    cancel(reason) {
+      detach();
+      controller.abort(reason);
+    }
+  }, { highWaterMark: 1 });
+};
+
+// Object URLs of decrypted content, so locking can revoke any still held
+const objectUrls = new Set<string>();
+
+export const createObjectUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  objectUrls.add(url);
+  return url;
+};
+
+export const revokeObjectUrl = (url: string) => {
+  objectUrls.delete(url);
+  URL.revokeObjectURL(url);
+};
+
+export const revokeAllObjectUrls = () => {
+  objectUrls.forEach(url => URL.revokeObjectURL(url));
+  objectUrls.clear();
+};
+
+// Browsers can keep a Blob built from a stream on disk, unlike an array of decrypted buffers.
+export const readFileBlob = (file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<Blob> => {
+  return new Response(createDecryptStream(file, keys, signal), { headers: { 'Content-Type': file.mimeType } }).blob();
+};
+
+// Serves byte ranges of a file, keeping the most recently used decrypted chunks so
+// that consecutive reads inside one chunk decrypt it only once.
+export const createRangeReader = (file: StoredFile, keys: VaultKeys) => {
+  const cache = new Map<number, Uint8Array>();
+
+  const load = async (index: number, signal?: AbortSignal) => {
+    let data = cache.get(index);
+    if (data) {
+      cache.delete(index);
+    } else {
+      data = new Uint8Array(file.isChunked && file.chunkIds
+        ? await decryptChunkAt(file, keys, index, signal)
+        : await decryptWhole(file, keys, signal));
+      if (cache.size >= RANGE_CACHE_CHUNKS) cache.delete(cache.keys().next().value!);
+    }
+    cache.set(index, data);
+    return data;
+  };
+
+  // end is exclusive
+  return async (start: number, end: number, signal?: AbortSignal): Promise<Uint8Array> => {
+    end = Math.min(end, file.size);
+    if (start >= end) return new Uint8Array(0);
+    if (!file.isChunked) return (await load(0, signal)).slice(start, end);
+
+    const out = new Uint8Array(end - start);
+    for (let index = Math.floor(start / CHUNK_SIZE); index * CHUNK_SIZE < end; index++) {
+      const chunkStart = index * CHUNK_SIZE;
+      const data = await load(index, signal);
+      const from = Math.max(start, chunkStart) - chunkStart;
+      const to = Math.min(end, chunkStart + data.byteLength) - chunkStart;
+      out.set(data.subarray(from, to), chunkStart + from - start);
+    }
+    return out;
+  };
+};
+
+// SERVICE WORKER STREAMS
+// The service worker answers requests for a virtual URL, including HTTP Range
+// requests, by asking this page for byte ranges over a MessagePort. Decryption
+// stays in the page; the worker never sees keys.
+interface OpenStream {
+  port: MessagePort;
+  refs: number;
+  url: Promise<string | null>;
+  reconnect?: () => void; // Registers the stream again with a restarted worker
+}
+
+const openStreams = new Map<string, OpenStream>();
+let listening = false;
+
+async function getStreamWorker(): Promise<{ worker: ServiceWorker, scope: string } | null> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) return null;
+  if (!listening) {
+    listening = true;
+    navigator.serviceWorker.addEventListener('message', (e: MessageEvent) => {
+      if (e.data?.type === 'vault-missing') openStreams.get(e.data.id)?.reconnect?.();
+    });
+    navigator.serviceWorker.startMessages();
+  }
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? { worker, scope: registration.scope } : null;
+}
+
+export interface StreamUrlOptions {
+  download?: boolean;
+}
+
+// Previews get one URL per file, shared and reference-counted, so a player can
+// seek with Range requests; downloads get a single-use URL. Resolves to null when
+// no service worker can serve the file (first visit, private mode, or an outdated
+// worker); callers fall back to a Blob.
+export const openStreamUrl = (file: StoredFile, keys: VaultKeys, { download = false }: StreamUrlOptions = {}): Promise<string | null> => {
+  const id = download ? crypto.randomUUID() : file.id;
+  const existing = openStreams.get(id);
+  if (existing) {
+    existing.refs++;
+    return existing.url;
+  }
+
+  const channel = new MessageChannel();
+  const stream: OpenStream = { port: channel.port1, refs: 1, url: Promise.resolve(null) };
+  openStreams.set(id, stream);
+  stream.url = registerStream(id, channel, file, keys, download);
+  return stream.url;
+};
+
+async function registerStream(id: string, channel: MessageChannel, file: StoredFile, keys: VaultKeys, download: boolean): Promise<string | null> {
+  const target = await getStreamWorker();
+  if (!target) {
+    dropStream(id);
+    return null;
+  }
+
+  const read = createRangeReader(file, keys);
+
+  // Answers reads arriving on the channel's first port and hands the second to the worker
+  const connect = (channel: MessageChannel, worker: ServiceWorker) => {
+    const port = channel.port1;
+    const reads = new Map<number, AbortController>();
+
+    port.onmessage = async (e: MessageEvent) => {
+      const msg = e.data;
+      if (msg.type === 'cancel') {
+        reads.get(msg.requestId)?.abort();
+        return;
+      }
+      if (msg.type === 'closed') {
+        // Downloads are single-use; previews stay open until released
+        if (download) dropStream(id);
+        return;
+      }
+      if (msg.type !== 'read') return;
+
+      const controller = new AbortController();
+      reads.set(msg.requestId, controller);
+      try {
+        const data = await read(msg.start, msg.end, controller.signal);
+        port.postMessage({ type: 'data', requestId: msg.requestId, data }, [data.buffer]);
+      } catch (err: any) {
+        port.postMessage({ type: 'error', requestId: msg.requestId, message: err?.message || 'Read failed' });
+      } finally {
+        reads.delete(msg.requestId);
+      }
+    };
+
+    const ready = new Promise<boolean>(resolve => {
+      const timer = setTimeout(() => resolve(false), SW_READY_TIMEOUT);
+      port.addEventListener('message', (e: MessageEvent) => {
+        if (e.data?.type !== 'ready') return;
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+    port.start();
+
+    worker.postMessage({
+      type: 'vault-stream',
+      id,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      download
+    }, [channel.port2]);
+    return ready;
+  };
+
+  const port = channel.port1;
+  const ready = connect(channel, target.worker);
+  const stream = openStreams.get(id);
+  if (stream?.port === port) {
+    stream.reconnect = () => {
+      const worker = navigator.serviceWorker?.controller;
+      if (!worker || openStreams.get(id) !== stream) return;
+      const next = new MessageChannel();
+      stream.port.close();
+      stream.port = next.port1;
+      connect(next, worker);
+    };
+  }
+
+  // Released (or the vault locked) while waiting for the worker
+  if (openStreams.get(id)?.port !== port) return null;
+  if (!(await ready)) {
+    dropStream(id);
+    return null;
+  }
+  const prefix = download ? STREAM_PREFIX : FILES_PREFIX;
+  return new URL(`${prefix}${id}/${encodeURIComponent(file.name)}`, target.scope).href;
+}
+
+function dropStream(id: string) {
+  const stream = openStreams.get(id);
+  if (!stream) return;
+  openStreams.delete(id);
+  navigator.serviceWorker?.controller?.postMessage({ type: 'vault-release', id });
+  stream.port.close();
+}
+
+function streamIdOf(urlOrId: string) {
+  for (const prefix of [FILES_PREFIX, STREAM_PREFIX]) {
+    if (urlOrId.includes(prefix)) return urlOrId.split(prefix)[1].split('/')[0];
+  }
+  return urlOrId;
+}
+
+export const releaseStreamUrl = (urlOrId: string) => {
+  const id = streamIdOf(urlOrId);
+  const stream = openStreams.get(id);
+  if (!stream || --stream.refs > 0) return;
+  dropStream(id);
+};
+
+// Called on lock, so no virtual URL outlives the keys it reads with
+export const releaseAllStreams = () => {
+  for (const id of [...openStreams.keys()]) dropStream(id);
+};
+
+// Writes a decrypted file to disk without holding it in memory where the browser
+// allows: the File System Access API first (needs a user gesture, so only when
+// `interactive`), then a service-worker download, then a Blob.
+export const saveFileToDisk = async (file: StoredFile, keys: VaultKeys, { interactive = true } = {}): Promise<void> => {
+  const picker = (window as any).showSaveFilePicker;
+  if (interactive && picker) {
+    let handle;
+    try {
+      handle = await picker({ suggestedName: file.name });
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return; // Picker dismissed
+      handle = null;
+    }
+    if (handle) {
+      await createDecryptStream(file, keys).pipeTo(await handle.createWritable());
+      return;
+    }
+  }
+
+  const streamUrl = await openStreamUrl(file, keys, { download: true });
+  const url = streamUrl || createObjectUrl(await readFileBlob(file, keys));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  link.click();
+  if (!streamUrl) setTimeout(() => revokeObjectUrl(url), 1000);
+};
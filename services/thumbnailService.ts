@@ -0,0 +1,233 @@
+import { StoredFile, VaultKeys } from '../types';
+import { sealThumbnail, openThumbnail } from './cryptoService';
+import { saveThumbnail, getThumbnail, getThumbnailIds } from './storageService';
+import { readFileBlob, openStreamUrl, releaseStreamUrl, createObjectUrl, revokeObjectUrl } from './streamService';
+
+const THUMBNAIL_EDGE = 320; // Longer side, in pixels
+const THUMBNAIL_TYPE = 'image/jpeg';
+const THUMBNAIL_QUALITY = 0.75;
+const VIDEO_FRAME_TIMEOUT = 15000;
+const LOAD_CONCURRENCY = 4;
+
+type ThumbnailSource = Pick<StoredFile, 'type' | 'mimeType'>;
+
+interface RebuildOptions {
+  all?: boolean; // Also replace existing thumbnails
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Images the browser couldn't draw, so cards don't decrypt them again this session
+const undrawable = new Set<string>();
+let activeLoads = 0;
+const waitingLoads: Array<() => void> = [];
+
+const isPdf = (file: ThumbnailSource) => file.mimeType === 'application/pdf';
+
+export const canHaveThumbnail = (file: ThumbnailSource) => file.type === 'image' || file.type === 'video' || isPdf(file);
+
+function toJpeg(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, THUMBNAIL_TYPE, THUMBNAIL_QUALITY));
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number): Promise<Blob | null> {
+  const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff'; // JPEG has no transparency
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return toJpeg(canvas);
+}
+
+async function imageThumbnail(blob: Blob) {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return await drawScaled(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Grabs a frame a little into the video, past any fade-in from black
+function videoThumbnail(src: string, signal?: AbortSignal): Promise<Blob | null> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const finish = (result: Blob | null, error?: unknown) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      video.removeAttribute('src');
+      video.load();
+      if (error) reject(error);
+      else resolve(result);
+    };
+    const onAbort = () => finish(null, signal!.reason);
+    const timer = setTimeout(() => finish(null), VIDEO_FRAME_TIMEOUT);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 10) : 0;
+    };
+    video.onseeked = () => {
+      drawScaled(video, video.videoWidth, video.videoHeight).then(blob => finish(blob), err => finish(null, err));
+    };
+    video.onerror = () => finish(null);
+    video.src = src;
+  });
+}
+
+async function pdfThumbnail(blob: Blob) {
+  const { openPdf, renderPdfPage } = await import('./pdfService');
+  const doc = await openPdf(await blob.arrayBuffer());
+  try {
+    const canvas = document.createElement('canvas');
+    await renderPdfPage(await doc.getPage(1), canvas, THUMBNAIL_EDGE);
+    return await toJpeg(canvas);
+  } finally {
+    doc.destroy();
+  }
+}
+
+// Draws a thumbnail from plaintext. Resolves to null for formats the browser can't draw.
+async function createThumbnail(source: Blob, file: ThumbnailSource, signal?: AbortSignal): Promise<Blob | null> {
+  if (file.type === 'image') return imageThumbnail(source);
+  if (file.type === 'video') {
+    const url = createObjectUrl(source);
+    try {
+      return await videoThumbnail(url, signal);
+    } finally {
+      revokeObjectUrl(url);
+    }
+  }
+  if (isPdf(file)) return pdfThumbnail(source);
+  return null;
+}
+
+async function storeThumbnail(file: StoredFile, thumbnail: Blob, keys: VaultKeys) {
+  const { encryptedData, iv } = await sealThumbnail(await thumbnail.arrayBuffer(), keys, file.id);
+  await saveThumbnail({ id: file.id, vaultId: file.vaultId, encryptedData, iv });
+}
+
+// Called while the plaintext is still at hand (upload, camera). A missing
+// thumbnail is never an error: the card falls back to an icon.
+export const generateThumbnail = async (file: StoredFile, source: Blob, keys: VaultKeys): Promise<boolean> => {
+  if (!canHaveThumbnail(file)) return false;
+  try {
+    const thumbnail = await createThumbnail(source, file);
+    if (!thumbnail) return false;
+    await storeThumbnail(file, thumbnail, keys);
+    return true;
+  } catch (err) {
+    console.warn(`No thumbnail for ${file.name}`, err);
+    return false;
+  }
+};
+
+// Videos are read through the streaming URL where possible, so only the
+// chunks around the poster frame are decrypted.
+async function thumbnailFromVault(file: StoredFile, keys: VaultKeys, signal?: AbortSignal) {
+  if (file.type === 'video') {
+    const url = await openStreamUrl(file, keys);
+    if (url) {
+      try {
+        return await videoThumbnail(url, signal);
+      } finally {
+        releaseStreamUrl(url);
+      }
+    }
+  }
+  return createThumbnail(await readFileBlob(file, keys, signal), file, signal);
+}
+
+// Cards request thumbnails as they scroll into view. Only a few load at once;
+// a finished load hands its slot straight to the next waiting one, and a card
+// that scrolls away aborts its request before it costs anything.
+async function withLoadSlot<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (activeLoads < LOAD_CONCURRENCY) {
+    activeLoads++;
+  } else {
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        waitingLoads.splice(waitingLoads.indexOf(start), 1);
+        reject(signal!.reason);
+      };
+      waitingLoads.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  try {
+    signal?.throwIfAborted();
+    return await task();
+  } finally {
+    const next = waitingLoads.shift();
+    if (next) next();
+    else activeLoads--;
+  }
+}
+
+export const loadThumbnailUrl = (file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<string | null> => {
+  return withLoadSlot(() => loadThumbnail(file, keys, signal), signal);
+};
+
+// Images stored before thumbnails existed get one the first time they're shown.
+// Videos and PDFs wait for a rebuild from maintenance, as that can mean
+// decrypting far more than a card is worth.
+async function loadThumbnail(file: StoredFile, keys: VaultKeys, signal?: AbortSignal): Promise<string | null> {
+  const stored = await getThumbnail(file.id);
+  if (stored) {
+    const data = await openThumbnail(stored, keys, file.id);
+    return createObjectUrl(new Blob([data], { type: THUMBNAIL_TYPE }));
+  }
+  if (file.type !== 'image' || undrawable.has(file.id)) return null;
+
+  let thumbnail: Blob | null = null;
+  try {
+    thumbnail = await thumbnailFromVault(file, keys, signal);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn(`No thumbnail for ${file.name}`, err);
+  }
+  if (!thumbnail) {
+    undrawable.add(file.id);
+    return null;
+  }
+  signal?.throwIfAborted();
+  await storeThumbnail(file, thumbnail, keys);
+  return createObjectUrl(thumbnail);
+}
+
+export const rebuildThumbnails = async (vaultId: string, files: StoredFile[], keys: VaultKeys, { all = false, signal, onProgress }: RebuildOptions = {}): Promise<{ built: number, failed: number }> => {
+  const existing = new Set(all ? [] : await getThumbnailIds(vaultId));
+  const targets = files.filter(f => canHaveThumbnail(f) && !existing.has(f.id));
+  let built = 0;
+  let failed = 0;
+
+  for (let i = 0; i < targets.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i, targets.length);
+    try {
+      const thumbnail = await thumbnailFromVault(targets[i], keys, signal);
+      if (thumbnail) {
+        await storeThumbnail(targets[i], thumbnail, keys);
+        built++;
+      } else {
+        failed++;
+      }
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn(`No thumbnail for ${targets[i].name}`, err);
+      failed++;
+    }
+  }
+  return { built, failed };
+};
@@ -0,0 +1,43 @@
+import { StoredFile, VaultKeys } from '../types';
+import { patchFile, deleteFile } from './storageService';
+import { withHistory } from './versionService';
+
+export const TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [1, 7, 30, 90, 365];
+const DAY = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (file: StoredFile) => !!file.deletedAt;
+
+export const trashExpiresAt = (file: StoredFile, retentionDays: number) => file.deletedAt! + retentionDays * DAY;
+
+// Trashing only marks the record; its chunks and thumbnail stay untouched until
+// the file is purged. Resolves to the IDs that were trashed.
+export const moveToTrash = async (ids: string[], keys: VaultKeys, deletedAt = Date.now()): Promise<string[]> => {
+  const trashed: string[] = [];
+  for (const id of ids) {
+    if (await patchFile(id, { deletedAt }, keys)) trashed.push(id);
+  }
+  return trashed;
+};
+
+// Files go back to their folder, or to `fallbackFolderId` if it no longer exists.
+export const restoreFromTrash = async (files: StoredFile[], folderIds: Set<string>, fallbackFolderId: string | undefined, keys: VaultKeys): Promise<StoredFile[]> => {
+  const restored: StoredFile[] = [];
+  for (const file of files) {
+    const folderId = file.folderId && folderIds.has(file.folderId) ? file.folderId : fallbackFolderId;
+    const patch = { deletedAt: undefined, folderId };
+    if (await patchFile(file.id, patch, keys)) restored.push({ ...file, ...patch });
+  }
+  return restored;
+};
+
+export const purgeFiles = async (ids: string[]): Promise<void> => {
+  for (const id of ids) await deleteFile(id);
+};
+
+// Resolves to the IDs that were purged, older versions of the files included.
+export const purgeExpiredTrash = async (files: StoredFile[], retentionDays: number, now = Date.now()): Promise<string[]> => {
+  const expired = withHistory(files, files.filter(f => isTrashed(f) && trashExpiresAt(f, retentionDays) <= now).map(f => f.id));
+  await purgeFiles(expired);
+  return expired;
+};
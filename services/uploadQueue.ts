@@ -0,0 +1,501 @@
+import { FileType, StoredChunk, StoredFile, UploadItem, UploadSession, UploadSource, VaultKeys } from '../types';
+import { SHARED_CHUNK_FORMAT, CHUNK_SIZE, sealMetadata, openMetadata, hashContent } from './cryptoService';
+import { encryptFile, encryptChunk } from './workerCryptoService';
+import {
+  saveFile,
+  findSharedChunk,
+  saveSharedChunk,
+  retainChunks,
+  deleteChunks,
+  commitFileRewrite,
+  getStoredFile,
+  appendUploadChunk,
+  getUploadSessions,
+  saveUploadSession,
+  discardUploadSession,
+  completeUploadSession
+} from './storageService';
+import { generateThumbnail } from './thumbnailService';
+import { indexFile } from './searchService';
+
+const CHUNK_THRESHOLD = 25 * 1024 * 1024; // Larger files are chunked
+const LARGE_MEDIA = 15 * 1024 * 1024; // Large media is stored uncompressed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 2000;
+const CONCURRENCY = 2;
+
+interface Entry {
+  item: UploadItem;
+  file?: File;
+  folderId?: string;
+  session?: UploadSession;
+  source?: UploadSource;
+  controller?: AbortController;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  cancelled?: boolean;
+  keepDuplicate?: boolean;
+  linkDuplicate?: boolean;
+}
+
+interface ActiveVault {
+  id: string;
+  keys: VaultKeys;
+  onSaved: (file: StoredFile) => void;
+  findDuplicate: (contentHash: string) => Promise<StoredFile | undefined>;
+  onLinked: (id: string, patch: Partial<StoredFile>) => void;
+}
+
+// Holds an upload whose content is already in the vault until the user decides
+class DuplicateUploadError extends Error {
+  existing: StoredFile;
+
+  constructor(existing: StoredFile) {
+    super(`${existing.name} has the same content.`);
+    this.name = 'DuplicateUploadError';
+    this.existing = existing;
+  }
+}
+
+let vault: ActiveVault | null = null;
+let entries: Entry[] = [];
+let snapshot: UploadItem[] = [];
+const listeners = new Set<() => void>();
+
+function emit() {
+  snapshot = entries.map(entry => ({ ...entry.item }));
+  listeners.forEach(listener => listener());
+}
+
+export const subscribeUploads = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getUploads = (): UploadItem[] => snapshot;
+
+export const detectFileType = (mimeType: string): FileType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.includes('pdf')) return 'document';
+  return 'other';
+};
+
+async function hashHead(file: File) {
+  const digest = await crypto.subtle.digest('SHA-256', await file.slice(0, CHUNK_SIZE).arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Resolves to the stored copy a duplicate is linked to
+async function checkDuplicate(entry: Entry, active: ActiveVault, contentHash: string): Promise<StoredFile | undefined> {
+  if (entry.keepDuplicate) return;
+  const existing = await active.findDuplicate(contentHash);
+  if (existing && !entry.linkDuplicate) throw new DuplicateUploadError(existing);
+  return existing;
+}
+
+// A linked duplicate shares its payload like the chunks of large files: the
+// content is split into shared chunks of CHUNK_SIZE, so range reads map onto
+// them, and a copy stored whole moves into those chunks too and drops its own
+// payload. Both keep the whole-file content hash.
+async function linkWhole(entry: Entry, active: ActiveVault, existing: StoredFile, data: ArrayBuffer, contentHash: string, signal: AbortSignal): Promise<StoredFile> {
+  const { id: vaultId, keys } = active;
+  const file = entry.file!;
+  const id = crypto.randomUUID();
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const total = Math.max(1, Math.ceil(data.byteLength / CHUNK_SIZE));
+  const chunkIds: string[] = [];
+  const chunkIvs: Uint8Array[] = [];
+  const chunkHashes: string[] = [];
+
+  // Each chunk found or saved holds a reference for the new file
+  try {
+    for (let index = 0; index < total; index++) {
+      signal.throwIfAborted();
+      const part = data.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+      const hash = total === 1 ? contentHash : await hashContent(part, keys);
+      let chunk: StoredChunk | undefined = await findSharedChunk(hash);
+      if (!chunk || !(await retainChunks([chunk.id]))) {
+        const binding = { fileId: id, index, total, format: SHARED_CHUNK_FORMAT, hash };
+        const { encryptedData, iv } = await encryptChunk(part, keys, salt, binding, signal);
+        chunk = { id: crypto.randomUUID(), data: encryptedData, iv, hash, refs: 1 };
+        await saveSharedChunk(chunk);
+      }
+      chunkIds.push(chunk.id);
+      chunkIvs.push(chunk.iv!);
+      chunkHashes.push(hash);
+    }
+  } catch (err) {
+    await deleteChunks(chunkIds).catch(e => console.error("Link cleanup failed", e));
+    throw err;
+  }
+
+  const stored: StoredFile = {
+    id,
+    vaultId,
+    name: file.name,
+    type: detectFileType(file.type),
+    mimeType: file.type,
+    size: file.size,
+    compressedSize: data.byteLength,
+    isCompressed: false,
+    iv: new Uint8Array(12), // Dummy for chunked
+    salt,
+    keyScheme: 'master',
+    chunkFormat: SHARED_CHUNK_FORMAT,
+    isChunked: true,
+    chunkIds,
+    chunkIvs,
+    chunkHashes,
+    contentHash,
+    folderId: entry.folderId,
+    createdAt: Date.now()
+  };
+  try {
+    await saveFile(stored, keys);
+  } catch (err) {
+    await deleteChunks(chunkIds).catch(e => console.error("Link cleanup failed", e));
+    throw err;
+  }
+
+  // The record may have been linked since the caller last saw it
+  const current = await getStoredFile(existing.id);
+  if (current && !current.isChunked && await retainChunks(chunkIds)) {
+    const { compressedSize, isCompressed, iv, keyScheme, chunkFormat, isChunked } = stored;
+    const patch = { compressedSize, isCompressed, encryptedData: undefined, iv, salt, keyScheme, chunkFormat, isChunked, chunkIds, chunkIvs, chunkHashes };
+    if (await commitFileRewrite(existing.id, patch, [], chunkIds, keys)) active.onLinked(existing.id, patch);
+  }
+  return stored;
+}
+
+async function uploadWhole(entry: Entry, active: ActiveVault, signal: AbortSignal): Promise<StoredFile> {
+  const { id: vaultId, keys } = active;
+  const file = entry.file!;
+  const type = detectFileType(file.type);
+  const skipCompression = (type === 'image' || type === 'video' || type === 'audio') && file.size > LARGE_MEDIA;
+  const data = await file.arrayBuffer();
+  const contentHash = await hashContent(data, keys);
+  const linkTo = await checkDuplicate(entry, active, contentHash);
+  if (linkTo) return linkWhole(entry, active, linkTo, data, contentHash, signal);
+  const { encryptedData, iv, salt, compressedSize, isCompressed, keyScheme } = await encryptFile(data, keys, skipCompression, signal);
+  signal.throwIfAborted();
+
+  const stored: StoredFile = {
+    id: crypto.randomUUID(),
+    vaultId,
+    name: file.name,
+    type,
+    mimeType: file.type,
+    size: file.size,
+    compressedSize,
+    isCompressed,
+    encryptedData,
+    iv,
+    salt,
+    keyScheme,
+    contentHash,
+    folderId: entry.folderId,
+    createdAt: Date.now()
+  };
+  await saveFile(stored, keys);
+  return stored;
+}
+
+// Content already stored in the vault is kept once: a chunk with the same hash
+// only gains a reference. The chunk and the session are saved together, even if
+// the upload was paused meanwhile, so the session never loses track of a chunk.
+async function addChunk(session: UploadSession, data: ArrayBuffer, total: number, keys: VaultKeys, signal: AbortSignal): Promise<UploadSession> {
+  const hash = await hashContent(data, keys);
+  const extend = (chunkId: string, iv: Uint8Array): UploadSession => ({
+    ...session,
+    chunkIds: [...session.chunkIds, chunkId],
+    chunkIvs: [...session.chunkIvs, iv],
+    chunkHashes: [...session.chunkHashes!, hash]
+  });
+
+  const shared = await findSharedChunk(hash);
+  if (shared) {
+    const next = extend(shared.id, shared.iv!);
+    if (await appendUploadChunk(next, shared.id)) return next;
+  }
+
+  const binding = { fileId: session.id, index: session.chunkIds.length, total, format: SHARED_CHUNK_FORMAT, hash };
+  const { encryptedData, iv } = await encryptChunk(data, keys, session.salt, binding, signal);
+  const next = extend(crypto.randomUUID(), iv);
+  await appendUploadChunk(next, { id: next.chunkIds[next.chunkIds.length - 1], data: encryptedData, iv, hash, refs: 1 });
+  return next;
+}
+
+// Continues from the session's last saved chunk. A session only carries on if the
+// selected file still starts with the same bytes; otherwise it starts over.
+async function uploadChunked(entry: Entry, active: ActiveVault, signal: AbortSignal): Promise<StoredFile> {
+  const { id: vaultId, keys } = active;
+  const file = entry.file!;
+  const headHash = await hashHead(file);
+
+  if (entry.session && (entry.source?.headHash !== headHash || !entry.session.chunkHashes)) {
+    await discardUploadSession(entry.session.id);
+    entry.session = undefined;
+  }
+  if (!entry.session) {
+    const id = crypto.randomUUID();
+    entry.source = { name: file.name, mimeType: file.type, size: file.size, lastModified: file.lastModified, headHash, folderId: entry.folderId, createdAt: Date.now() };
+    entry.session = {
+      id,
+      vaultId,
+      salt: crypto.getRandomValues(new Uint8Array(16)),
+      chunkIds: [],
+      chunkIvs: [],
+      chunkHashes: [],
+      sealedMeta: await sealMetadata(entry.source, keys, id)
+    };
+    await saveUploadSession(entry.session);
+  }
+
+  const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
+  for (let i = entry.session.chunkIds.length; i < totalChunks; i++) {
+    signal.throwIfAborted();
+    const start = i * CHUNK_SIZE;
+    const chunkBuffer = await file.slice(start, Math.min(start + CHUNK_SIZE, file.size)).arrayBuffer();
+    entry.session = await addChunk(entry.session, chunkBuffer, totalChunks, keys, signal);
+    entry.item.bytesDone = Math.min(file.size, (i + 1) * CHUNK_SIZE);
+    emit();
+  }
+
+  // A chunked file's hash covers the hashes of its chunks. Its chunks are already
+  // shared with any copy, so a link is stored like a kept duplicate.
+  const session = entry.session;
+  const contentHash = await hashContent(new TextEncoder().encode(session.chunkHashes!.join('')), keys);
+  await checkDuplicate(entry, active, contentHash);
+
+  const stored: StoredFile = {
+    id: session.id,
+    vaultId,
+    name: file.name,
+    type: detectFileType(file.type),
+    mimeType: file.type,
+    size: file.size,
+    compressedSize: file.size, // No compression for large files
+    isCompressed: false,
+    iv: new Uint8Array(12), // Dummy for chunked
+    salt: session.salt,
+    keyScheme: 'master',
+    chunkFormat: SHARED_CHUNK_FORMAT,
+    isChunked: true,
+    chunkIds: session.chunkIds,
+    chunkIvs: session.chunkIvs,
+    chunkHashes: session.chunkHashes,
+    contentHash,
+    folderId: entry.source!.folderId,
+    createdAt: entry.source!.createdAt
+  };
+  await completeUploadSession(stored, keys);
+  return stored;
+}
+
+function remove(entry: Entry) {
+  clearTimeout(entry.retryTimer);
+  entries = entries.filter(e => e !== entry);
+}
+
+async function run(entry: Entry) {
+  const active = vault!;
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.item.status = 'uploading';
+  entry.item.error = undefined;
+  entry.item.attempts++;
+  emit();
+
+  try {
+    const file = entry.file!;
+    const stored = file.size > CHUNK_THRESHOLD
+      ? await uploadChunked(entry, active, controller.signal)
+      : await uploadWhole(entry, active, controller.signal);
+    await generateThumbnail(stored, file, active.keys);
+    await indexFile(stored, file, active.keys);
+    if (vault !== active) return;
+    entry.item.status = 'done';
+    entry.item.bytesDone = file.size;
+    entry.file = undefined;
+    entry.session = undefined;
+    const { encryptedData, ...listed } = stored;
+    active.onSaved(listed);
+  } catch (err: any) {
+    if (entry.cancelled) {
+      if (entry.session) await discardUploadSession(entry.session.id).catch(e => console.error("Upload cleanup failed", e));
+      remove(entry);
+    } else if (vault !== active || controller.signal.aborted) {
+      // Paused or locked: the session stays for resume
+    } else if (err instanceof DuplicateUploadError) {
+      entry.item.status = 'duplicate';
+      entry.item.duplicateOf = err.existing.name;
+    } else if (err?.name === 'QuotaExceededError') {
+      entry.item.status = 'failed';
+      entry.item.error = 'Storage full';
+    } else if (entry.item.attempts >= MAX_ATTEMPTS) {
+      console.error(`Upload of ${entry.item.name} failed`, err);
+      entry.item.status = 'failed';
+      entry.item.error = 'Upload failed';
+    } else {
+      entry.item.status = 'retrying';
+      entry.retryTimer = setTimeout(() => {
+        if (entry.item.status !== 'retrying') return;
+        entry.item.status = 'queued';
+        pump();
+      }, RETRY_DELAY * entry.item.attempts);
+    }
+  } finally {
+    entry.controller = undefined;
+    if (vault === active) {
+      emit();
+      pump();
+    }
+  }
+}
+
+function pump() {
+  if (!vault) return;
+  let running = entries.filter(e => e.item.status === 'uploading').length;
+  for (const entry of entries) {
+    if (running >= CONCURRENCY) break;
+    if (entry.item.status !== 'queued') continue;
+    running++;
+    run(entry);
+  }
+  emit();
+}
+
+// Loads uploads that were interrupted in an earlier session; they continue once
+// their file is selected again. Uploads whose content `findDuplicate` recognises
+// wait for keepDuplicate or linkDuplicate, or are cancelled. `onLinked` reports
+// stored copies whose payload moved into a shared chunk.
+export const startUploadQueue = async (
+  vaultId: string,
+  keys: VaultKeys,
+  onSaved: (file: StoredFile) => void,
+  findDuplicate: (contentHash: string) => Promise<StoredFile | undefined>,
+  onLinked: (id: string, patch: Partial<StoredFile>) => void
+): Promise<void> => {
+  const active: ActiveVault = { id: vaultId, keys, onSaved, findDuplicate, onLinked };
+  vault = active;
+  entries = [];
+  emit();
+
+  for (const session of await getUploadSessions(vaultId)) {
+    try {
+      const source = await openMetadata<UploadSource>(session.sealedMeta, keys, session.id);
+      if (vault !== active) return;
+      entries.push({
+        item: {
+          id: session.id,
+          name: source.name,
+          size: source.size,
+          bytesDone: Math.min(source.size, session.chunkIds.length * CHUNK_SIZE),
+          status: 'interrupted',
+          attempts: 0
+        },
+        session,
+        source
+      });
+    } catch (err) {
+      console.warn(`Skipping unreadable upload session ${session.id}`, err);
+    }
+  }
+  emit();
+};
+
+// Stops all work on lock. Saved upload sessions are kept for the next unlock.
+export const stopUploadQueue = () => {
+  vault = null;
+  for (const entry of entries) {
+    clearTimeout(entry.retryTimer);
+    entry.controller?.abort();
+  }
+  entries = [];
+  emit();
+};
+
+// Interrupted uploads keep the folder they were started in.
+export const enqueueUploads = (files: File[], folderId?: string) => {
+  if (!vault) return;
+  for (const file of files) {
+    const interrupted = entries.find(({ item, source }) =>
+      item.status === 'interrupted' &&
+      source?.name === file.name &&
+      source.size === file.size &&
+      source.lastModified === file.lastModified);
+
+    if (interrupted) {
+      interrupted.file = file;
+      interrupted.item.status = 'queued';
+    } else {
+      entries.push({
+        item: { id: crypto.randomUUID(), name: file.name, size: file.size, bytesDone: 0, status: 'queued', attempts: 0 },
+        file,
+        folderId
+      });
+    }
+  }
+  pump();
+};
+
+export const pauseUpload = (id: string) => {
+  const entry = entries.find(e => e.item.id === id);
+  if (!entry || !['queued', 'uploading', 'retrying'].includes(entry.item.status)) return;
+  clearTimeout(entry.retryTimer);
+  entry.item.status = 'paused';
+  entry.controller?.abort();
+  emit();
+};
+
+export const resumeUpload = (id: string) => {
+  const entry = entries.find(e => e.item.id === id);
+  if (!entry || entry.item.status !== 'paused') return;
+  entry.item.status = 'queued';
+  pump();
+};
+
+export const retryUpload = (id: string) => {
+  const entry = entries.find(e => e.item.id === id);
+  if (!entry || entry.item.status !== 'failed') return;
+  entry.item.attempts = 0;
+  entry.item.status = 'queued';
+  pump();
+};
+
+export const cancelUpload = async (id: string): Promise<void> => {
+  const entry = entries.find(e => e.item.id === id);
+  if (!entry) return;
+  entry.cancelled = true;
+  if (entry.controller) {
+    // The running upload cleans up after itself once it stops
+    entry.controller.abort();
+    return;
+  }
+  remove(entry);
+  emit();
+  if (entry.session) await discardUploadSession(entry.session.id);
+};
+
+function requeueDuplicate(id: string, decide: (entry: Entry) => void) {
+  const entry = entries.find(e => e.item.id === id);
+  if (!entry || entry.item.status !== 'duplicate') return;
+  decide(entry);
+  entry.item.duplicateOf = undefined;
+  entry.item.attempts = 0;
+  entry.item.status = 'queued';
+  pump();
+}
+
+// Stores a held duplicate anyway. Chunked files share every chunk with the copy
+// already in the vault; smaller ones keep their payload in their own record.
+export const keepDuplicate = (id: string) => requeueDuplicate(id, entry => { entry.keepDuplicate = true; });
+
+// Stores a held duplicate as a second entry for the content already stored
+export const linkDuplicate = (id: string) => requeueDuplicate(id, entry => { entry.linkDuplicate = true; });
+
+export const clearFinishedUploads = () => {
+  entries = entries.filter(e => e.item.status !== 'done');
+  emit();
+};
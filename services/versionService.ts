@@ -0,0 +1,77 @@
+import { StoredFile, VaultKeys, VersionPolicy } from '../types';
+import { patchFile, deleteFile } from './storageService';
+
+export const DEFAULT_VERSION_POLICY: VersionPolicy = { enabled: false, keepLast: 10 };
+const DAY = 24 * 60 * 60 * 1000;
+
+// Older revisions stay in the vault as ordinary records, marked superseded and
+// sharing a group ID with the current version. Only the current one is listed.
+export const isRevision = (file: StoredFile) => !!file.supersededAt;
+
+export const versionGroupOf = (file: StoredFile) => file.versionGroupId || file.id;
+
+// Earlier revisions of a file, newest first
+export const getRevisions = (files: StoredFile[], file: StoredFile): StoredFile[] => {
+  const group = versionGroupOf(file);
+  return files
+    .filter(f => isRevision(f) && f.id !== file.id && versionGroupOf(f) === group)
+    .sort((a, b) => b.supersededAt! - a.supersededAt!);
+};
+
+// An upload replaces the listed file of the same name in the same folder. Notes
+// are edited in place and never take part.
+export const findPreviousVersion = (files: StoredFile[], file: StoredFile) =>
+  files.find(f => f.id !== file.id && f.name === file.name && f.folderId === file.folderId && f.type !== 'note' && !isRevision(f) && !f.deletedAt);
+
+// Makes `file` the current version of `previous`, which keeps its place in the
+// history. Tags and favorite carry over. Resolves to null if `previous` is gone.
+export const addVersion = async (file: StoredFile, previous: StoredFile, keys: VaultKeys): Promise<{ file: StoredFile, previous: StoredFile } | null> => {
+  const versionGroupId = versionGroupOf(previous);
+  const superseded = { versionGroupId, supersededAt: Date.now() };
+  if (!(await patchFile(previous.id, superseded, keys))) return null;
+  const patch = { versionGroupId, tags: previous.tags, isFavorite: previous.isFavorite };
+  if (!(await patchFile(file.id, patch, keys))) throw new Error(`${file.name} was removed while it was being versioned.`);
+  return { file: { ...file, ...patch }, previous: { ...previous, ...superseded } };
+};
+
+// Swaps a revision with the current version, so restoring never loses anything.
+export const restoreVersion = async (revision: StoredFile, current: StoredFile, keys: VaultKeys): Promise<{ restored: StoredFile, superseded: StoredFile }> => {
+  const patch = { supersededAt: undefined, name: current.name, folderId: current.folderId, tags: current.tags, isFavorite: current.isFavorite };
+  const superseded = { supersededAt: Date.now() };
+  if (!(await patchFile(revision.id, patch, keys))) throw new Error('This version no longer exists.');
+  if (!(await patchFile(current.id, superseded, keys))) throw new Error(`${current.name} no longer exists.`);
+  return { restored: { ...revision, ...patch }, superseded: { ...current, ...superseded } };
+};
+
+// Revisions beyond the newest `keepLast` of their file, or older than `keepDays`
+export const selectPrunable = (files: StoredFile[], policy: VersionPolicy, now = Date.now()): string[] => {
+  const groups = new Map<string, StoredFile[]>();
+  for (const file of files.filter(isRevision)) {
+    const group = versionGroupOf(file);
+    groups.set(group, [...(groups.get(group) || []), file]);
+  }
+  const prunable: string[] = [];
+  for (const revisions of groups.values()) {
+    revisions.sort((a, b) => b.supersededAt! - a.supersededAt!);
+    revisions.forEach((file, index) => {
+      const tooMany = policy.keepLast !== undefined && index >= policy.keepLast;
+      const tooOld = policy.keepDays !== undefined && file.supersededAt! < now - policy.keepDays * DAY;
+      if (tooMany || tooOld) prunable.push(file.id);
+    });
+  }
+  return prunable;
+};
+
+// Resolves to the IDs that were pruned.
+export const pruneVersions = async (files: StoredFile[], policy: VersionPolicy, now = Date.now()): Promise<string[]> => {
+  const prunable = selectPrunable(files, policy, now);
+  for (const id of prunable) await deleteFile(id);
+  return prunable;
+};
+
+// Deleting a file for good takes its history with it
+export const withHistory = (files: StoredFile[], ids: string[]): string[] => {
+  const groups = new Set(files.filter(f => ids.includes(f.id)).map(versionGroupOf));
+  const history = files.filter(f => isRevision(f) && groups.has(versionGroupOf(f)) && !ids.includes(f.id)).map(f => f.id);
+  return [...ids, ...history];
+};
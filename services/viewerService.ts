@@ -0,0 +1,122 @@
+import { CodeToken, StoredFile, ViewerKind } from '../types';
+
+type ViewerSource = Pick<StoredFile, 'name' | 'type' | 'mimeType'>;
+
+interface Language {
+  keywords: string[];
+  comments: string[]; // Regex sources
+  strings: string[];
+  markup?: boolean;
+}
+
+const C_COMMENTS = ['//[^\\n]*', '/\\*[\\s\\S]*?\\*/'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+const QUOTED = ['"(?:[^"\\\\\\n]|\\\\.)*"', "'(?:[^'\\\\\\n]|\\\\.)*'"];
+const TEMPLATE = ['`(?:[^`\\\\]|\\\\.)*`'];
+
+const LANGUAGES: Record<string, Language> = {
+  js: {
+    keywords: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'],
+    comments: C_COMMENTS,
+    strings: [...QUOTED, ...TEMPLATE]
+  },
+  c: {
+    keywords: ['auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'float', 'fn', 'for', 'func', 'function', 'go', 'if', 'impl', 'import', 'int', 'interface', 'let', 'long', 'match', 'mut', 'namespace', 'new', 'nil', 'null', 'override', 'package', 'private', 'protected', 'pub', 'public', 'return', 'self', 'short', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'true', 'try', 'typedef', 'use', 'using', 'val', 'var', 'void', 'while'],
+    comments: C_COMMENTS,
+    strings: QUOTED
+  },
+  python: {
+    keywords: ['False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'],
+    comments: HASH_COMMENTS,
+    strings: ['"""[\\s\\S]*?"""', "'''[\\s\\S]*?'''", ...QUOTED]
+  },
+  shell: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'until', 'while'],
+    comments: HASH_COMMENTS,
+    strings: QUOTED
+  },
+  sql: {
+    keywords: ['and', 'as', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from', 'group', 'having', 'insert', 'into', 'is', 'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where'],
+    comments: ['--[^\\n]*', '/\\*[\\s\\S]*?\\*/'],
+    strings: QUOTED
+  },
+  css: { keywords: ['important', 'media', 'import', 'keyframes', 'from', 'to'], comments: ['/\\*[\\s\\S]*?\\*/'], strings: QUOTED },
+  data: { keywords: ['true', 'false', 'null', 'yes', 'no'], comments: HASH_COMMENTS, strings: QUOTED },
+  markup: { keywords: [], comments: ['<!--[\\s\\S]*?-->'], strings: QUOTED, markup: true }
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', tsx: 'js',
+  c: 'c', h: 'c', cpp: 'c', hpp: 'c', cc: 'c', cs: 'c', java: 'c', kt: 'c', go: 'c', rs: 'c', swift: 'c', php: 'c', dart: 'c',
+  py: 'python', rb: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  sql: 'sql',
+  css: 'css', scss: 'css', less: 'css',
+  json: 'data', yaml: 'data', yml: 'data', toml: 'data', ini: 'data', env: 'data',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', vue: 'markup'
+};
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+const TEXT_EXTENSIONS = ['txt', 'log', 'csv', 'tsv', 'conf', 'cfg'];
+const NUMBER = '\\b(?:0x[0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b';
+const WORD = '[A-Za-z_$][\\w$]*';
+const TAG = '</?[\\w:.-]+|/?>';
+
+const patterns = new Map<string, RegExp>();
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const languageOf = (file: Pick<StoredFile, 'name'>): string | undefined => EXTENSION_LANGUAGES[extensionOf(file.name)];
+
+// Picks an in-app viewer from the MIME type, or the extension for source files,
+// which browsers often report without a type (or, for .ts, as a video stream).
+export const viewerFor = (file: ViewerSource): ViewerKind | null => {
+  const extension = extensionOf(file.name);
+  const mime = file.mimeType || '';
+  if (mime === 'application/pdf') return 'pdf';
+  if (MARKDOWN_EXTENSIONS.includes(extension) || mime === 'text/markdown') return 'markdown';
+  if (EXTENSION_LANGUAGES[extension] && !mime.startsWith('image/')) return 'code';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+};
+
+function patternFor(name: string, language: Language) {
+  let pattern = patterns.get(name);
+  if (!pattern) {
+    const groups = [language.comments.join('|'), language.strings.join('|'), language.markup ? TAG : NUMBER, WORD];
+    pattern = new RegExp(groups.map(g => `(${g})`).join('|'), 'g');
+    patterns.set(name, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+// A light scanner rather than a full grammar: comments, strings, numbers,
+// keywords and markup tags, which is what makes code readable at a glance.
+export const highlightCode = (code: string, languageName: string): CodeToken[] => {
+  const language = LANGUAGES[languageName];
+  if (!language) return [{ kind: 'plain', text: code }];
+  const keywords = new Set(language.keywords);
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  const push = (kind: CodeToken['kind'], text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous?.kind === kind) previous.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  for (const match of code.matchAll(patternFor(languageName, language))) {
+    if (match.index! > last) push('plain', code.slice(last, match.index));
+    const [text, comment, string, numberOrTag] = match;
+    if (comment !== undefined) push('comment', text);
+    else if (string !== undefined) push('string', text);
+    else if (numberOrTag !== undefined) push(language.markup ? 'tag' : 'number', text);
+    else push(keywords.has(languageName === 'sql' ? text.toLowerCase() : text) ? 'keyword' : 'plain', text);
+    last = match.index! + text.length;
+  }
+  if (last < code.length) push('plain', code.slice(last));
+  return tokens;
+};
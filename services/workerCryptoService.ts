@@ -0,0 +1,202 @@
+import { KeyScheme, VaultKeys } from '../types';
+import * as inline from './cryptoService';
+import { ChunkBinding, IntegrityError } from './cryptoService';
+import type { CryptoOp, CryptoWorkerRequest, CryptoWorkerResponse } from './cryptoWorker';
+
+// Same operations as cryptoService, run on a bounded pool of workers so large
+// files never block the UI thread. Input buffers are transferred to the worker
+// and are detached afterwards; payloads are read from storage for each use.
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+interface Task {
+  id: number;
+  op: CryptoOp;
+  keys: VaultKeys;
+  args: any[];
+  transfer: ArrayBuffer[];
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+  cleanup: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  keyIds: Set<number>;
+  task: Task | null;
+  ready: boolean;
+}
+
+const queue: Task[] = [];
+const keyIds = new WeakMap<VaultKeys, number>();
+let pool: PoolWorker[] | null = null;
+let workersAvailable = typeof Worker !== 'undefined';
+let nextKeyId = 1;
+let nextTaskId = 1;
+
+function abortReason(signal?: AbortSignal) {
+  return signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function toError(error: { name: string, message: string }) {
+  if (error.name === 'IntegrityError') return new IntegrityError(error.message);
+  const err = new Error(error.message);
+  err.name = error.name;
+  return err;
+}
+
+function runInline(task: Task) {
+  task.cleanup();
+  const fn = inline[task.op] as (...args: any[]) => Promise<any>;
+  const [data, ...rest] = task.args;
+  fn(data, task.keys, ...rest).then(task.resolve, task.reject);
+}
+
+// Module workers aren't supported everywhere; if one dies before it's ready the
+// pool is abandoned and all work runs on the main thread. Tasks are only sent to
+// ready workers, so everything still queued has its buffers intact.
+function fallBackToInline() {
+  workersAvailable = false;
+  pool?.forEach(slot => slot.worker.terminate());
+  pool = null;
+  queue.splice(0).forEach(runInline);
+}
+
+function spawn(): PoolWorker | null {
+  try {
+    const worker = new Worker(new URL('./cryptoWorker.ts', import.meta.url), { type: 'module' });
+    const slot: PoolWorker = { worker, keyIds: new Set(), task: null, ready: false };
+    worker.onmessage = (e: MessageEvent<CryptoWorkerResponse>) => settle(slot, e.data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      if (!slot.ready) return fallBackToInline();
+      const task = slot.task;
+      replace(slot);
+      task?.reject(new Error(e.message || 'Crypto worker failed.'));
+      pump();
+    };
+    return slot;
+  } catch (e) {
+    return null;
+  }
+}
+
+function getPool(): PoolWorker[] | null {
+  if (pool || !workersAvailable) return pool;
+  const slots = Array.from({ length: POOL_SIZE }, spawn);
+  if (slots.some(slot => !slot)) {
+    slots.forEach(slot => slot?.worker.terminate());
+    workersAvailable = false;
+    return null;
+  }
+  pool = slots as PoolWorker[];
+  return pool;
+}
+
+// Terminating is the only way to stop a WebCrypto call that's already running
+function replace(slot: PoolWorker) {
+  slot.worker.terminate();
+  slot.task = null;
+  const fresh = spawn();
+  if (!fresh || !pool) return fallBackToInline();
+  pool[pool.indexOf(slot)] = fresh;
+}
+
+function settle(slot: PoolWorker, msg: CryptoWorkerResponse) {
+  if ('ready' in msg) {
+    slot.ready = true;
+    return pump();
+  }
+  const task = slot.task;
+  if (!task || task.id !== msg.id) return;
+  slot.task = null;
+  task.cleanup();
+  if ('error' in msg) task.reject(toError(msg.error));
+  else task.resolve(msg.result);
+  pump();
+}
+
+function pump() {
+  if (!pool) return;
+  for (const slot of pool) {
+    if (!slot.ready || slot.task) continue;
+    const task = queue.shift();
+    if (!task) return;
+
+    let keysId = keyIds.get(task.keys);
+    if (!keysId) {
+      keysId = nextKeyId++;
+      keyIds.set(task.keys, keysId);
+    }
+    if (!slot.keyIds.has(keysId)) {
+      slot.worker.postMessage({ type: 'register', keysId, keys: task.keys } as CryptoWorkerRequest);
+      slot.keyIds.add(keysId);
+    }
+
+    slot.task = task;
+    const request: CryptoWorkerRequest = { type: 'run', id: task.id, op: task.op, keysId, args: task.args };
+    slot.worker.postMessage(request, { transfer: task.transfer });
+  }
+}
+
+function submit<T>(op: CryptoOp, keys: VaultKeys, args: any[], transfer: ArrayBuffer[], signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+
+    const onAbort = () => {
+      const queued = queue.indexOf(task);
+      if (queued !== -1) {
+        queue.splice(queued, 1);
+      } else {
+        const slot = pool?.find(s => s.task === task);
+        if (slot) replace(slot);
+      }
+      task.cleanup();
+      reject(abortReason(signal));
+      pump();
+    };
+
+    const task: Task = {
+      id: nextTaskId++,
+      op,
+      keys,
+      args,
+      transfer,
+      resolve,
+      reject,
+      cleanup: () => signal?.removeEventListener('abort', onAbort)
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (!getPool()) return runInline(task);
+    queue.push(task);
+    pump();
+  });
+}
+
+export function encryptFile(data: ArrayBuffer, keys: VaultKeys, skipCompression: boolean = false, signal?: AbortSignal): ReturnType<typeof inline.encryptFile> {
+  return submit('encryptFile', keys, [data, skipCompression], [data], signal);
+}
+
+export function encryptChunk(data: ArrayBuffer, keys: VaultKeys, salt: Uint8Array, binding: ChunkBinding, signal?: AbortSignal): ReturnType<typeof inline.encryptChunk> {
+  return submit('encryptChunk', keys, [data, salt, binding], [data], signal);
+}
+
+export function decryptFile(encryptedData: ArrayBuffer, keys: VaultKeys, iv: Uint8Array, salt: Uint8Array, isCompressed: boolean = true, scheme?: KeyScheme, signal?: AbortSignal): Promise<ArrayBuffer> {
+  return submit('decryptFile', keys, [encryptedData, iv, salt, isCompressed, scheme], [encryptedData], signal);
+}
+
+export function decryptChunk(encryptedData: ArrayBuffer, keys: VaultKeys, iv: Uint8Array, salt: Uint8Array, scheme?: KeyScheme, binding?: ChunkBinding, signal?: AbortSignal): Promise<ArrayBuffer> {
+  return submit('decryptChunk', keys, [encryptedData, iv, salt, scheme, binding], [encryptedData], signal);
+}
+
+// Called on lock: drops every worker, and with it every copy of the vault keys.
+// Pending work is rejected and the pool is rebuilt on next use.
+export function resetCryptoPool() {
+  const pending = [...(pool || []).map(slot => slot.task).filter(Boolean) as Task[], ...queue.splice(0)];
+  pool?.forEach(slot => slot.worker.terminate());
+  pool = null;
+  pending.forEach(task => {
+    task.cleanup();
+    task.reject(new DOMException('The vault was locked.', 'AbortError'));
+  });
+}
@@ -7,7 +7,18 @@ const ASSETS = [
   'https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700;800&family=Outfit:wght@800;900&display=swap'
 ];
 
+// Virtual URLs for decrypted files: __vault__/files/<fileId>/<name> for previews
+// and __vault__/stream/<token>/<name> for one-off downloads. The page that
+// registered a file holds the keys and answers byte-range reads over a
+// MessagePort; nothing is cached here.
+const VAULT_PREFIXES = ['__vault__/files/', '__vault__/stream/'];
+const STREAM_WINDOW = 10 * 1024 * 1024; // Reads never cross a chunk boundary
+const RECOVER_TIMEOUT = 3000;
+const streams = new Map();
+const recovering = new Map(); // Stream ID -> callbacks waiting for it to be registered again
+
 self.addEventListener('install', (event) => {
+  self.skipWaiting();
   event.waitUntil(
     caches.open(CACHE_NAME).then((cache) => {
       return cache.addAll(ASSETS);
@@ -15,7 +26,166 @@ self.addEventListener('install', (event) => {
   );
 });
 
+self.addEventListener('message', (event) => {
+  const msg = event.data;
+  if (msg && msg.type === 'vault-stream' && event.ports[0]) {
+    const port = event.ports[0];
+    const entry = { ...msg, port, pending: new Map(), nextRequest: 1 };
+    port.onmessage = (e) => {
+      const reply = e.data;
+      const pending = entry.pending.get(reply.requestId);
+      if (!pending) return;
+      entry.pending.delete(reply.requestId);
+      if (reply.type === 'data') pending.resolve(reply.data);
+      else pending.reject(new Error(reply.message));
+    };
+    streams.set(msg.id, entry);
+    port.postMessage({ type: 'ready' });
+    (recovering.get(msg.id) || []).forEach((resume) => resume(entry));
+    recovering.delete(msg.id);
+  } else if (msg && msg.type === 'vault-release') {
+    const entry = streams.get(msg.id);
+    if (!entry) return;
+    streams.delete(msg.id);
+    for (const pending of entry.pending.values()) pending.reject(new Error('Stream released'));
+    entry.pending.clear();
+  }
+});
+
+function readRange(entry, start, end, onRequest) {
+  return new Promise((resolve, reject) => {
+    const requestId = entry.nextRequest++;
+    entry.pending.set(requestId, { resolve, reject });
+    onRequest(requestId);
+    entry.port.postMessage({ type: 'read', requestId, start, end });
+  });
+}
+
+// Parses a single "bytes=" range into inclusive [start, end]. Returns null for a
+// missing or malformed header (serve everything) and false if unsatisfiable.
+// Multi-range requests are answered with their first range.
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)/.exec(header || '');
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  let start;
+  let end;
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return false;
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (start >= size || start > end) return false;
+  return { start, end };
+}
+
+// The browser stops idle workers, and their streams go with them. The page that
+// opened a stream still holds it and registers it again when asked.
+async function recoverStream(id, clientId) {
+  const client = clientId && await self.clients.get(clientId);
+  const targets = client ? [client] : await self.clients.matchAll({ type: 'window' });
+  return new Promise((resolve) => {
+    const resume = (entry) => {
+      clearTimeout(timer);
+      resolve(entry);
+    };
+    const timer = setTimeout(() => {
+      const waiting = (recovering.get(id) || []).filter((fn) => fn !== resume);
+      if (waiting.length) recovering.set(id, waiting);
+      else recovering.delete(id);
+      resolve(undefined);
+    }, RECOVER_TIMEOUT);
+    recovering.set(id, [...(recovering.get(id) || []), resume]);
+    for (const target of targets) target.postMessage({ type: 'vault-missing', id });
+  });
+}
+
+async function serveStream(id, request, clientId) {
+  const entry = streams.get(id) || await recoverStream(id, clientId);
+  if (!entry) return new Response('Stream not found', { status: 404 });
+
+  const headers = {
+    'Content-Type': entry.mimeType || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'no-store'
+  };
+  if (entry.download) {
+    headers['Content-Disposition'] = `attachment; filename*=UTF-8''${encodeURIComponent(entry.name)}`;
+  }
+
+  const range = parseRange(request.headers.get('Range'), entry.size);
+  if (range === false) {
+    return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${entry.size}` } });
+  }
+  const start = range ? range.start : 0;
+  const last = range ? range.end : entry.size - 1;
+  headers['Content-Length'] = String(entry.size === 0 ? 0 : last - start + 1);
+  if (range) headers['Content-Range'] = `bytes ${start}-${last}/${entry.size}`;
+  const status = range ? 206 : 200;
+
+  if (request.method === 'HEAD') return new Response(null, { status, headers });
+
+  let offset = start;
+  let current = null;
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    entry.port.postMessage({ type: 'closed' });
+  };
+
+  // Players abort the running request whenever they seek, so only the chunks
+  // under the playhead are ever decrypted.
+  const body = new ReadableStream({
+    async pull(controller) {
+      if (offset > last || entry.size === 0) {
+        controller.close();
+        close();
+        return;
+      }
+      const end = Math.min((Math.floor(offset / STREAM_WINDOW) + 1) * STREAM_WINDOW, last + 1);
+      try {
+        const data = await readRange(entry, offset, end, (requestId) => { current = requestId; });
+        current = null;
+        offset = end;
+        controller.enqueue(data);
+      } catch (err) {
+        close();
+        throw err;
+      }
+    },
+    cancel() {
+      if (current !== null) {
+        entry.pending.delete(current);
+        entry.port.postMessage({ type: 'cancel', requestId: current });
+      }
+      close();
+    }
+  }, { highWaterMark: 0 });
+
+  return new Response(body, { status, headers });
+}
+
+function matchVaultUrl(url) {
+  if (url.origin !== self.location.origin) return null;
+  for (const prefix of VAULT_PREFIXES) {
+    const path = new URL(prefix, self.registration.scope).pathname;
+    if (url.pathname.startsWith(path)) return url.pathname.slice(path.length).split('/')[0];
+  }
+  return null;
+}
+
 self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  const streamId = matchVaultUrl(url);
+  if (streamId) {
+    event.respondWith(serveStream(decodeURIComponent(streamId), event.request, event.clientId));
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request).then((response) => {
       return response || fetch(event.request);
@@ -29,6 +199,6 @@ self.addEventListener('activate', (event) => {
       return Promise.all(
         keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
       );
-    })
+    }).then(() => self.clients.claim())
   );
 });
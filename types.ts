@@ -1,5 +1,21 @@
 
-export type FileType = 'image' | 'video' | 'document' | 'other';
+export type FileType = 'image' | 'video' | 'audio' | 'document' | 'note' | 'other';
+
+// 'pin': key derived from the PIN with PBKDF2 (records written before master keys)
+// 'master': key derived from the vault master key with HKDF
+export type KeyScheme = 'pin' | 'master';
+
+export interface WrappedKey {
+  wrappedKey: ArrayBuffer;
+  iv: Uint8Array;
+  salt: Uint8Array;
+}
+
+// Unlocked key material. Both keys are non-extractable.
+export interface VaultKeys {
+  masterKey: CryptoKey;
+  pinKey: CryptoKey;
+}
 
 export interface VaultProfile {
   id: string;
@@ -10,9 +26,36 @@ export interface VaultProfile {
     iv: Uint8Array;
     salt: Uint8Array;
   };
+  keyWrap?: WrappedKey; // Master key wrapped by the PIN; missing on profiles created before master keys
+  trashRetentionDays?: number; // Defaults to TRASH_RETENTION_DAYS
+  versionPolicy?: VersionPolicy; // Defaults to DEFAULT_VERSION_POLICY
+  lockPolicy?: LockPolicy; // Defaults to DEFAULT_LOCK_POLICY
+  wipeAfterFailures?: number; // Failed PINs in a row that delete the vault; off when missing
   createdAt: number;
 }
 
+// When an unlocked vault locks itself. Missing time limits are off.
+export interface LockPolicy {
+  idleMinutes?: number;       // Without keyboard, pointer or touch input
+  maxSessionMinutes?: number; // Since unlocking, active or not
+  lockOnHide: boolean;        // Tab hidden, after a short grace period
+  lockOnBlur: boolean;        // Window loses focus
+  panicLock: boolean;         // Hotkey or three-finger tap
+}
+
+// Re-uploading a file's name into its folder adds a version when enabled.
+// Older versions beyond either limit are pruned.
+export interface VersionPolicy {
+  enabled: boolean;
+  keepLast?: number;
+  keepDays?: number;
+}
+
+export interface SealedBox {
+  encryptedData: ArrayBuffer;
+  iv: Uint8Array;
+}
+
 export interface StoredFile {
   id: string;
   vaultId: string; // Partition files by vault
@@ -25,24 +68,262 @@ export interface StoredFile {
   encryptedData?: ArrayBuffer; // Optional if chunked
   iv: Uint8Array;
   salt: Uint8Array;
+  keyScheme?: KeyScheme; // Missing means 'pin'
   isChunked?: boolean;
   chunkIds?: string[]; // IDs of chunks in the secure_files store
   chunkIvs?: Uint8Array[]; // IVs for each chunk
+  chunkFormat?: number; // Associated-data version bound into each chunk; missing on unbound legacy chunks
+  chunkHashes?: string[]; // Content hash of each chunk, for shared chunks
+  contentHash?: string; // Keyed hash of the content, to recognise duplicates; missing on older files
+  perceptualHash?: string; // 64-bit difference hash of an image, in hex, to find look-alikes
+  folderId?: string; // Missing on files stored before folders; they're moved to the root folder on load
+  tags?: string[];
+  isFavorite?: boolean;
+  deletedAt?: number; // Set while the file is in the trash
+  versionGroupId?: string; // Shared by every version of a file; the first version's ID
+  supersededAt?: number; // Set on older versions, which are only shown in the history
+  updatedAt?: number; // Last edit of a note
+  createdAt: number;
+}
+
+// Shared chunks carry their IV and content hash so another file can reference
+// them, and count their references. Chunks without `refs` have a single owner.
+export interface StoredChunk {
+  id: string;
+  data: ArrayBuffer;
+  iv?: Uint8Array;
+  hash?: string;
+  refs?: number;
+}
+
+// Persisted shape of a StoredFile. Everything but IDs and decryption parameters
+// is sealed into `sealedMeta`; records written before that carry it in plaintext.
+export interface FileRecord extends Partial<StoredFile> {
+  id: string;
+  vaultId: string;
+  sealedMeta?: SealedBox;
+}
+
+export type FolderKind = 'folder' | 'album';
+
+export interface Folder {
+  id: string;
+  vaultId: string;
+  name: string;
+  kind: FolderKind;
+  parentId: string | null; // null only for the vault's root folder
+  createdAt: number;
+}
+
+// A saved filter. Every rule that is set must match.
+export interface CollectionRules {
+  types?: FileType[];
+  tags?: string[];        // Files need all of them
+  favoritesOnly?: boolean;
+  withinDays?: number;    // Added in the last N days
+}
+
+export interface SmartCollection {
+  id: string;
+  vaultId: string;
+  name: string;
+  rules: CollectionRules;
   createdAt: number;
 }
 
+// Persisted shape of folders and smart collections: everything but the IDs is sealed.
+export interface SealedRecord {
+  id: string;
+  vaultId: string;
+  sealedMeta: SealedBox;
+}
+
+// Downscaled preview of a file, encrypted and stored under the file's ID.
+// Can always be rebuilt from the file itself.
+export interface StoredThumbnail {
+  id: string;             // File ID
+  vaultId: string;
+  encryptedData: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+// Words and text extracted from a document, sealed under the search subkey
+export interface StoredSearchEntry {
+  id: string;             // File ID
+  vaultId: string;
+  encryptedData: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+export interface SearchEntry {
+  terms: string[];        // Distinct normalized words of the whole document
+  text: string;           // Leading part of the text, for snippets
+}
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+// Markdown of notes, parsed into blocks that render without any HTML
+export interface MarkdownInline {
+  kind: 'text' | 'code' | 'strong' | 'em' | 'link';
+  text: string;
+  href?: string;
+}
+
+export type MarkdownBlock =
+  | { kind: 'heading', level: number, content: MarkdownInline[] }
+  | { kind: 'paragraph', content: MarkdownInline[] }
+  | { kind: 'quote', content: MarkdownInline[] }
+  | { kind: 'list', ordered: boolean, items: { content: MarkdownInline[], checked?: boolean }[] }
+  | { kind: 'code', text: string }
+  | { kind: 'rule' };
+
+export type ViewerKind = 'image' | 'video' | 'audio' | 'pdf' | 'markdown' | 'code' | 'text';
+
+export interface CodeToken {
+  kind: 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'tag';
+  text: string;
+}
+
+// Background re-encryption of PIN-bound records under the master key. One per vault.
+export interface MigrationJob {
+  id: string; // vaultId
+  sealedPin: {            // PIN the legacy records are bound to, encrypted under the master key
+    encryptedData: ArrayBuffer;
+    iv: Uint8Array;
+    salt: Uint8Array;
+  };
+  inFlight?: {            // Chunks written for a file whose rewrite hasn't committed yet
+    fileId: string;
+    chunkIds: string[];
+  };
+  processed: number;
+  startedAt: number;
+}
+
+// Failed PIN entries of a profile, counted before each check. The MAC is keyed
+// by a non-extractable device key, so edited counters are detected.
+export interface LoginAttempts {
+  id: string; // Profile ID
+  failures: number;
+  lockedUntil: number;
+  mac: ArrayBuffer;
+}
+
+// Unlocked keys kept for session restore. CryptoKeys are stored as-is by
+// IndexedDB and stay non-extractable; the PIN is never persisted.
+export interface VaultSession {
+  id: string;
+  profileId: string;
+  keys: VaultKeys;
+  expiresAt: number;
+  createdAt?: number; // Unlock time, carried across reloads for the session limit; missing on older sessions
+}
+
+// A chunked upload in progress, saved after every chunk so it can pick up from
+// the last one after a reload once the same file is selected again.
+export interface UploadSession {
+  id: string;             // ID the finished file record will get
+  vaultId: string;
+  salt: Uint8Array;
+  chunkIds: string[];     // Chunks saved so far, in order
+  chunkIvs: Uint8Array[];
+  chunkHashes?: string[]; // Missing on sessions started before shared chunks; they start over
+  sealedMeta: SealedBox;  // UploadSource
+}
+
+export interface UploadSource {
+  name: string;
+  mimeType: string;
+  size: number;
+  lastModified: number;
+  headHash: string;       // SHA-256 of the first chunk, to recognise the file again
+  folderId?: string;
+  createdAt: number;
+}
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'retrying' | 'interrupted' | 'duplicate' | 'failed' | 'done';
+
+export interface UploadItem {
+  id: string;
+  name: string;
+  size: number;
+  bytesDone: number;
+  status: UploadStatus;
+  attempts: number;
+  error?: string;
+  duplicateOf?: string;   // Name of the file with the same content, while waiting for a decision
+}
+
+// What a health scan needs from a file record, without holding its payload
+export interface FileRecordSummary {
+  id: string;
+  vaultId: string;
+  chunkIds?: string[];
+  payloadBytes: number;
+}
+
+export type DamageReason = 'missing-chunks' | 'unreadable-metadata' | 'corrupted';
+
+export interface DamagedFile {
+  id: string;
+  name?: string;          // Unknown when the metadata itself can't be opened
+  reason: DamageReason;
+  missingChunks?: number;
+}
+
+export interface VaultHealthReport {
+  vaultId: string;
+  scannedFiles: number;
+  scannedChunks: number;
+  orphanedChunkIds: string[];   // Referenced by no record, upload or migration
+  orphanedRecordIds: string[];  // Records of profiles that no longer exist
+  reclaimableBytes: number;
+  damaged: DamagedFile[];       // Records of this vault that can't be restored
+  deep: boolean;                // Whether every payload was decrypted
+  checkedAt: number;
+}
+
+// Files with the same content, or images that look alike. The first file is the
+// one suggested to keep.
+export interface DuplicateCluster {
+  kind: 'exact' | 'similar';
+  files: StoredFile[];
+  extraSize: number; // Stored size of all files but the first
+}
+
 export interface StorageStats {
   used: number;
   total: number;
   saved: number;
+  historySize: number;  // Stored size of older versions, included in `used`
+  historyCount: number;
+  deduplicated: number; // Bytes not stored twice thanks to shared chunks
   imageCount: number;
   videoCount: number;
   docCount: number;
+  noteCount: number;
 }
 
+// Legacy JSON backup shape (version 2). Binary fields did not survive JSON.stringify.
 export interface VaultBackup {
   version: number;
   profiles: VaultProfile[];
   files: StoredFile[];
   exportedAt: number;
 }
+
+export interface BackupImportSummary {
+  profiles: number;
+  files: number;
+  chunks: number;
+  jobs: number;
+  folders: number;
+  collections: number;
+  thumbnails: number;
+  searchEntries: number;
+  skipped: number;
+}